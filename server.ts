@@ -1,47 +1,580 @@
 // server.ts - Complete Deno Bingo Server with WebSocket
-import { serve } from "https://deno.land/std@0.188.0/http/server.ts";
+import { serve, type ConnInfo } from "https://deno.land/std@0.188.0/http/server.ts";
 import { serveDir } from "https://deno.land/std@0.188.0/http/file_server.ts";
+import { crypto as stdCrypto } from "https://deno.land/std@0.188.0/crypto/mod.ts";
+import { toHashString } from "https://deno.land/std@0.188.0/crypto/to_hash_string.ts";
 
 // ============ INTERFACES & TYPES ============
+interface PlayerCard {
+  boardNumber: number;
+  markedNumbers: number[];
+  voided: boolean; // a win on it was rejected on review, so it cannot win again this game
+}
+
 interface Player {
   id: string;
   name: string;
   phone: string;
   boardType: string;
-  boardNumber: number;
-  stake: number;
+  cards: PlayerCard[];
+  stake: number; // per card
+  roomId: string;
   ws?: WebSocket;
-  balance: number;
-  totalWon: number;
-  markedNumbers: number[];
   joinedAt: Date;
   lastActive: Date;
   isOnline: boolean;
   isWinner: boolean;
+  stakeRefundable: boolean; // stake waits for the next game and is handed back if the player leaves first
+  falseClaims: number; // this game
+  lockedOut: boolean; // no more marks or claims this game, after false claims
+}
+
+interface PlayerSession {
+  id: string;
+  playerId: string;
+  phone: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+interface PlayerAccount {
+  phone: string;
+  name: string;
+  totalWon: number;
+  gamesPlayed: number;
+  verifiedAt: Date | null; // last time the phone's owner proved it with a one-time code
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface OtpChallenge {
+  phone: string;
+  codeHash: string;
+  expiresAt: Date;
+  attempts: number;
+  sentAt: Date;
+}
+
+interface SmsSender {
+  name: string;
+  send(phone: string, message: string): Promise<void>;
+}
+
+type LedgerEntryType =
+  | 'deposit'
+  | 'stake'
+  | 'stake_refund'
+  | 'prize'
+  | 'service_fee'
+  | 'jackpot_contribution'
+  | 'jackpot_win'
+  | 'prize_guarantee'
+  | 'withdrawal_hold'
+  | 'withdrawal_settle'
+  | 'withdrawal_reverse'
+  | 'adjustment';
+
+interface LedgerPosting {
+  account: string; // wallet:<phone>, held:<phone>, pool:<roomId>, jackpot:<boardType>, house:* or external:*
+  amount: number; // positive credits the account; the postings of an entry sum to zero
+}
+
+interface LedgerEntry {
+  seq: number;
+  id: string;
+  idempotencyKey: string;
+  type: LedgerEntryType;
+  postings: LedgerPosting[];
+  memo: string;
+  roomId: string | null;
+  gameId: string | null;
+  createdAt: Date;
+}
+
+interface LedgerRequest {
+  type: LedgerEntryType;
+  idempotencyKey: string;
+  postings: LedgerPosting[];
+  memo: string;
+  roomId?: string | null;
+  gameId?: string | null;
+}
+
+// processing: being handed to the provider; approved: the provider accepted it and the result is on its way
+type WithdrawalStatus = 'pending' | 'processing' | 'approved' | 'rejected' | 'paid' | 'failed';
+
+interface Withdrawal {
+  id: string;
+  phone: string;
+  playerName: string;
+  amount: number;
+  account: string; // where the money is sent
+  status: WithdrawalStatus;
+  note: string | null; // rejection reason or payout failure
+  provider: string | null;
+  payoutReference: string | null; // set once the provider has accepted the payout
+  requestedAt: Date;
+  updatedAt: Date;
+  history: { status: WithdrawalStatus; at: Date; note: string | null }[];
+}
+
+type DepositStatus = 'pending' | 'confirmed' | 'failed';
+
+interface Deposit {
+  id: string;
+  phone: string;
+  amount: number;
+  provider: string;
+  reference: string | null; // provider's reference, known once the deposit is initiated
+  status: DepositStatus;
+  note: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface PaymentCallback {
+  kind: 'deposit' | 'payout';
+  reference: string;
+  status: 'succeeded' | 'failed';
+  amount: number;
+  reason: string | null;
+}
+
+interface PaymentProvider {
+  name: string;
+  initiateDeposit(deposit: Deposit): Promise<{ reference: string; instructions: string }>;
+  sendPayout(withdrawal: Withdrawal): Promise<{ reference: string }>;
+  verifyCallback(headers: Headers, body: string): Promise<boolean>;
+  parseCallback(body: string): PaymentCallback;
+}
+
+type PrizeSplitRule = 'equal' | 'stake';
+
+// A card that completed the current stage
+interface StageClaim {
+  player: Player;
+  card: PlayerCard;
+  pattern: PatternMatch;
+}
+
+// Winning cards held back from payout until an admin checks them
+interface ClaimReview {
+  claims: StageClaim[];
+  heldAt: Date;
+}
+
+type DaubMode = 'auto' | 'manual';
+type FalseClaimPenalty = 'warning' | 'lockout' | 'forfeit';
+
+interface ClaimRules {
+  daubMode: DaubMode; // auto marks every card, manual leaves marking and claiming to the player
+  claimWindow: number; // ms after a ball during which a manual claim on that ball counts
+  falseClaimPenalties: FalseClaimPenalty[]; // nth false claim gets the nth penalty, the last one repeats
+  reviewWins: boolean; // hold every win for an admin to confirm or reject before it pays
+}
+
+// lobby → countdown → calling ⇄ verifying → (reviewing →) paid → cooldown → lobby; calling and verifying can be paused
+type GamePhase = 'lobby' | 'countdown' | 'calling' | 'verifying' | 'reviewing' | 'paused' | 'paid' | 'cooldown';
+type PhaseAction = 'register' | 'mark' | 'claim' | 'start' | 'call';
+
+interface LifecycleRules {
+  minPlayers: number; // the countdown starts once this many players have joined
+  countdown: number; // ms from the countdown starting to the first ball
+  salesCutoff: number; // ms before the first ball when registration closes
+  cooldown: number; // ms between the prizes being shown and the next lobby opening
+}
+
+interface CallPace {
+  interval: number; // ms between automatic calls
+  slowInterval: number | null; // ms between calls near the end of the game, null = never slow down
+  slowFrom: number; // the slow interval applies once this many numbers have been called
+}
+
+interface PrizeRules {
+  splitRule: PrizeSplitRule; // how co-winners on the same ball share a prize
+  houseCut: number; // fraction of each game's stakes kept by the house
+  jackpotContribution: number; // fraction of each game's stakes added to the board type's jackpot
+  jackpotCalls: number; // the jackpot is won when the final stage falls within this many calls
+  guaranteedMinimum: number; // the house tops the pool up to at least this much
+}
+
+interface PrizePoolBreakdown {
+  collected: number;
+  carriedOver: number;
+  houseCut: number;
+  jackpotContribution: number;
+  guaranteeTopUp: number;
+  payable: number;
 }
 
-interface GameState {
+interface Room {
   id: string;
+  gameId: string | null;
+  name: string;
+  boardType: string;
+  stakeTier: string;
+  minStake: number;
+  maxStake: number;
+  createdAt: Date;
   gameActive: boolean;
+  phase: GamePhase;
+  phaseEndsAt: Date | null; // when the countdown, verification, payout display or cooldown is over
+  phaseTimer: number | null;
+  lifecycle: LifecycleRules;
   calledNumbers: number[];
   players: Map<string, Player>;
   currentNumber: number | null;
   currentDisplay: string;
   startedAt: Date | null;
   winner: Player | null;
-  prizePool: number;
+  prizePool: number; // what the current (or next) game pays out
+  prizeRules: PrizeRules;
+  claimRules: ClaimRules;
+  lastCallAt: Date | null;
+  pendingClaims: StageClaim[]; // valid manual claims waiting for the window to close
+  claimTimer: number | null;
+  claimReview: ClaimReview | null;
   totalCollected: number;
   totalPaidOut: number;
-  boardTypes: string[];
   maxPlayers: number;
-  autoCallInterval: number | null;
+  callPace: CallPace;
+  callTimer: number | null;
+  nextCallAt: Date | null; // when the next automatic call is due
+  pausedAt: Date | null;
+  pauseReason: string | null;
+  cardSalt: string;
+  stageIndex: number;
+  stageWinners: StageWinner[];
+  activePatterns: string[] | null; // null = board type defaults
+  chatHistory: ChatMessage[];
+  drawOrder: number[];
+}
+
+interface GameRecord {
+  gameId: string;
+  roomId: string;
+  boardType: string;
+  commitment: string;
+  seed: string; // kept secret until the game ends
+  drawOrder: number[];
+  calledNumbers: number[];
+  calls: GameCall[];
+  cards: GameCard[]; // every card in play when the first ball was drawn
+  cardSalt: string | null; // null for games archived before the salt was recorded
+  config: GameConfig | null; // null for games archived before configs were recorded
+  claims: GameClaim[];
+  winners: GameWinner[];
+  prizePool: number;
+  startedAt: Date;
+  endedAt: Date | null;
+  revealedAt: Date | null;
+}
+
+interface GameConfig {
+  roomName: string;
+  stakeTier: string;
+  prizeRules: PrizeRules;
+  claimRules: ClaimRules;
+  callPace: CallPace;
+  patterns: string[];
+  stages: { id: string; label: string; share: number }[];
+}
+
+interface GameCard {
+  playerId: string;
+  playerName: string;
+  boardNumber: number;
+  numbers: number[];
+  stake: number;
+}
+
+interface GameCall {
+  number: number;
+  calledAt: Date | null; // null for games archived before call times were recorded
+}
+
+type GameClaimOutcome = 'accepted' | 'pending' | 'no_pattern' | 'missed_ball' | 'locked_out' | 'card_voided' | 'held' | 'confirmed' | 'rejected';
+
+interface GameClaim {
+  playerId: string;
+  playerName: string;
+  boardNumbers: number[];
+  outcome: GameClaimOutcome;
+  note: string | null;
+  at: Date;
+}
+
+interface GameWinner {
+  playerId: string;
+  playerName: string;
+  phone: string;
+  boardNumber: number;
+  stage: string;
+  pattern: string;
+  prize: number;
+  jackpot: number;
+  wonAt: Date;
+}
+
+// Plain-data copy of a room that can be written to storage and restored on boot
+interface RoomSnapshot {
+  id: string;
+  gameId: string | null;
+  name: string;
+  boardType: string;
+  stakeTier: string;
+  maxPlayers: number;
+  createdAt: Date;
+  gameActive: boolean;
+  phase: GamePhase;
+  lifecycle: LifecycleRules;
+  calledNumbers: number[];
+  drawOrder: number[];
+  currentNumber: number | null;
+  startedAt: Date | null;
+  winnerId: string | null;
+  prizePool: number;
+  prizeRules: PrizeRules;
+  claimRules: ClaimRules;
+  callPace: CallPace;
+  pausedAt: Date | null;
+  pauseReason: string | null;
+  claimReview: { heldAt: Date; claims: { playerId: string; boardNumber: number }[] } | null;
+  totalCollected: number;
+  totalPaidOut: number;
+  cardSalt: string;
+  stageIndex: number;
+  stageWinners: { stageId: string; playerId: string; prize: number; wonAt: Date }[];
+  activePatterns: string[] | null;
+  players: Omit<Player, 'ws' | 'lastActive' | 'isOnline'>[];
+}
+
+interface Storage {
+  loadAccounts(): Promise<PlayerAccount[]>;
+  saveAccount(account: PlayerAccount): Promise<void>;
+  loadRooms(): Promise<RoomSnapshot[]>;
+  saveRoom(snapshot: RoomSnapshot): Promise<void>;
+  deleteRoom(roomId: string): Promise<void>;
+  loadGames(limit: number): Promise<GameRecord[]>;
+  saveGame(record: GameRecord): Promise<void>;
+  loadChat(roomId: string, limit: number): Promise<ChatMessage[]>;
+  appendChat(roomId: string, message: ChatMessage): Promise<void>;
+  loadPatterns(): Promise<WinningPattern[]>;
+  savePattern(pattern: WinningPattern): Promise<void>;
+  loadLedger(): Promise<LedgerEntry[]>;
+  appendLedgerEntry(entry: LedgerEntry): Promise<void>;
+  loadWithdrawals(): Promise<Withdrawal[]>;
+  saveWithdrawal(withdrawal: Withdrawal): Promise<void>;
+  loadDeposits(): Promise<Deposit[]>;
+  saveDeposit(deposit: Deposit): Promise<void>;
+  loadSessions(): Promise<PlayerSession[]>;
+  saveSession(session: PlayerSession): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+  loadAdminUsers(): Promise<AdminUser[]>;
+  saveAdminUser(user: AdminUser): Promise<void>;
+  loadAdminSessions(): Promise<AdminSession[]>;
+  saveAdminSession(session: AdminSession): Promise<void>;
+  deleteAdminSession(sessionId: string): Promise<void>;
+  loadAudit(): Promise<AuditEntry[]>;
+  appendAuditEntry(entry: AuditEntry): Promise<void>;
+  loadSchedules(): Promise<GameSession[]>;
+  saveSchedule(session: GameSession): Promise<void>;
+  loadSecret(name: string): Promise<string | null>;
+  saveSecret(name: string, value: string): Promise<void>;
+}
+
+interface RoomOptions {
+  id?: string;
+  name: string;
+  boardType: string;
+  stakeTier?: string;
+  maxPlayers?: number;
+  daubMode?: DaubMode;
+}
+
+interface PrizeStage {
+  id: string;
+  label: string;
+  lines: number; // completed rows required on a 90-ball ticket
+  share: number; // fraction of the prize for this stage
+}
+
+interface StageWinner {
+  stage: PrizeStage;
+  player: Player;
+  prize: number;
+  wonAt: Date;
+}
+
+interface WinningPattern {
+  name: string;
+  label: string;
+  masks: number[]; // 5x5 bitmasks, bit index = row * 5 + col; any one mask wins
+  builtIn: boolean;
+}
+
+interface PatternMatch {
+  name: string;
+  label: string;
+}
+
+type AdminRole = 'operator' | 'cashier' | 'owner';
+
+interface AdminUser {
+  username: string;
+  role: AdminRole;
+  passwordHash: string; // PBKDF2-SHA256, hex
+  salt: string;
+  disabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface AdminSession {
+  id: string; // the value of the HTTP-only session cookie
+  username: string;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
 }
 
 interface AdminConnection {
   ws: WebSocket;
   lastActive: Date;
+  username: string;
+  role: AdminRole;
+  sessionId: string;
+}
+
+// Subset of JSON Schema used to describe the WebSocket protocol
+interface JsonSchema {
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'null' | 'array' | 'object';
+  description?: string;
+  enum?: readonly string[];
+  pattern?: string;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  anyOf?: readonly JsonSchema[];
+}
+
+// The TypeScript type of the values a schema accepts
+type FromSchema<S> =
+  S extends { anyOf: readonly (infer A)[] } ? FromSchema<A> :
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: 'string' } ? string :
+  S extends { type: 'integer' | 'number' } ? number :
+  S extends { type: 'boolean' } ? boolean :
+  S extends { type: 'null' } ? null :
+  S extends { type: 'array'; items: infer I } ? FromSchema<I>[] :
+  S extends { type: 'object'; properties: infer P; required: readonly (infer R)[] } ? ObjectFromSchema<P, R> :
+  S extends { type: 'object'; properties: infer P } ? ObjectFromSchema<P, never> :
+  unknown;
+
+type ObjectFromSchema<P, R> =
+  { -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]> };
+
+// Stable machine-readable reason for a failed request; the message text may change
+type ErrorCode = typeof ERROR_CODES[number];
+
+interface ProtocolError {
+  code: ErrorCode;
+  message: string;
+  field?: string;
+}
+
+// A token bucket allows short bursts up to capacity, then refillPerSecond messages a second
+interface RateLimitRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Flood-protection state for one client IP, shared by all its player sockets
+interface ClientLimits {
+  ip: string;
+  connections: Set<WebSocket>;
+  buckets: Map<string, TokenBucket>;
+  violations: number[]; // times of recent throttled or oversized messages
+  throttledTotal: number;
+  lastThrottledType: string | null;
+  lastThrottledAt: Date | null;
+  bannedUntil: Date | null;
+  bans: number;
+}
+
+type ScheduleRecurrence = 'none' | 'daily' | 'weekly';
+type ScheduledGameStatus = 'scheduled' | 'selling' | 'running' | 'finished' | 'skipped' | 'missed' | 'cancelled';
+
+interface ScheduledGame {
+  id: string;
+  position: number; // 1-based order within the session
+  name: string;
+  roomId: string;
+  boardType: string;
+  startsAt: Date;
+  patterns: string[] | null; // null = board type defaults
+  stake: number; // per card, the same for everyone in this game
+  prize: number; // guaranteed minimum prize, 0 = whatever the stakes pay
+  status: ScheduledGameStatus;
+  gameId: string | null;
+  note: string | null; // why the game was skipped, missed or cancelled
+}
+
+// An admin-loaded plan of games, such as an evening program; recurring sessions repeat once finished
+interface GameSession {
+  id: string;
+  name: string;
+  recurrence: ScheduleRecurrence;
+  games: ScheduledGame[];
+  createdBy: string;
+  createdAt: Date;
+  cancelledAt: Date | null;
+  nextSessionId: string | null; // the next occurrence of a recurring session, once it has been created
+}
+
+// What an audited admin action touched
+interface AuditTarget {
+  type: 'room' | 'player' | 'account' | 'withdrawal' | 'admin' | 'pattern' | 'client' | 'schedule';
+  id: string;
+}
+
+// One link in the append-only audit chain; hash covers every other field including prevHash
+interface AuditEntry {
+  seq: number;
+  id: string;
+  actor: string;
+  role: AdminRole | null;
+  action: string;
+  target: AuditTarget | null;
+  gameId: string | null;
+  details: Record<string, unknown>;
+  before: unknown;
+  after: unknown;
+  success: boolean;
+  message: string;
+  createdAt: Date;
+  prevHash: string;
+  hash: string;
 }
 
+// The fields of an admin reply that its audit entry reads back
+type AdminReply = Record<string, unknown> & { success?: boolean; message?: string; roomId?: string; sessionId?: string };
+
 interface ChatMessage {
   playerId: string;
   playerName: string;
@@ -54,37 +587,168 @@ interface ChatMessage {
 const CONFIG = {
   PORT: 8000,
   HOST: "0.0.0.0",
-  ADMIN_KEY: "asse2123",
+  ADMIN_AUTH: {
+    OWNER_USERNAME: "owner", // created when no admin accounts exist
+    OWNER_PASSWORD: Deno.env.get("BINGO_OWNER_PASSWORD") ?? null, // null = a random one, written to OWNER_PASSWORD_FILE
+    OWNER_PASSWORD_FILE: './owner-password.txt',
+    SESSION_TTL: 12 * 60 * 60 * 1000, // 12 hours
+    TICKET_TTL: 30 * 1000, // WebSocket tickets are single use and short-lived
+    COOKIE_NAME: "bingo_admin",
+    PBKDF2_ITERATIONS: 100000
+  },
   MAX_PLAYERS: 90,
-  SERVICE_FEE: 0.03, // 3%
-  MIN_STAKE: 25,
-  MAX_STAKE: 5000,
-  AUTO_CALL_INTERVAL: 7000, // 7 seconds
+  CALL_PACE: {
+    INTERVAL: 7000, // 7 seconds
+    MIN_INTERVAL: 2000,
+    MAX_INTERVAL: 60 * 1000
+  },
   INACTIVE_TIMEOUT: 30 * 60 * 1000, // 30 minutes
   BOARD_TYPES: ['75ball', '90ball', '30ball', '50ball', 'pattern', 'coverall'],
-  LOG_RETENTION: 1000
+  STAKE_TIERS: {
+    'open': { min: 25, max: 5000 },
+    'low': { min: 25, max: 100 },
+    'standard': { min: 100, max: 1000 },
+    'high': { min: 1000, max: 5000 }
+  } as Record<string, { min: number; max: number }>,
+  MAX_ROOMS: 20,
+  // One room per board type is opened at boot so players always have somewhere to join
+  DEFAULT_ROOMS: [
+    { id: 'room_75ball', name: '75-Ball', boardType: '75ball' },
+    { id: 'room_90ball', name: '90-Ball', boardType: '90ball' },
+    { id: 'room_30ball', name: '30-Ball Speed', boardType: '30ball' },
+    { id: 'room_50ball', name: '50-Ball', boardType: '50ball' },
+    { id: 'room_pattern', name: 'Pattern Bingo', boardType: 'pattern' },
+    { id: 'room_coverall', name: 'Coverall', boardType: 'coverall' }
+  ],
+  CARDS_PER_DECK: 100,
+  MAX_CARDS_PER_PLAYER: 6,
+  CLAIM_RULES: {
+    DAUB_MODE: 'auto' as DaubMode,
+    CLAIM_WINDOW: 5000, // 5 seconds, keep it below CALL_PACE.INTERVAL
+    FALSE_CLAIM_PENALTIES: ['warning', 'lockout'] as FalseClaimPenalty[],
+    REVIEW_WINS: false
+  },
+  GAME_LIFECYCLE: {
+    MIN_PLAYERS: 5,
+    COUNTDOWN: 60 * 1000, // 1 minute
+    SALES_CUTOFF: 10 * 1000, // registration closes 10 seconds before the first ball
+    PAID_DISPLAY: 15 * 1000, // winners stay on screen this long before the cooldown
+    COOLDOWN: 30 * 1000
+  },
+  SCHEDULE: {
+    TICK: 1000, // how often the scheduler looks for games to prepare or start
+    SALES_OPEN: 15 * 60 * 1000, // a scheduled game takes over its room this long before it starts
+    MISSED_AFTER: 30 * 60 * 1000, // games that could not start this long after their time are dropped
+    MAX_GAMES_PER_SESSION: 50
+  },
+  PRIZE_RULES: {
+    SPLIT_RULE: 'equal' as PrizeSplitRule,
+    HOUSE_CUT: 0.17,
+    JACKPOT_CONTRIBUTION: 0.03,
+    GUARANTEED_MINIMUM: 0,
+    // Calls within which the final stage must fall to win the jackpot
+    JACKPOT_CALLS: {
+      '75ball': 20,
+      '90ball': 50,
+      '30ball': 12,
+      '50ball': 15,
+      'pattern': 25,
+      'coverall': 50
+    } as Record<string, number>
+  },
+  NINETY_BALL_STAGES: [
+    { id: 'one_line', label: 'One Line', lines: 1, share: 0.2 },
+    { id: 'two_lines', label: 'Two Lines', lines: 2, share: 0.3 },
+    { id: 'full_house', label: 'Full House', lines: 3, share: 0.5 }
+  ],
+  DEFAULT_PATTERNS: {
+    '75ball': ['any_line', 'four_corners', 'blackout'],
+    '50ball': ['any_line', 'four_corners', 'blackout'],
+    'pattern': ['x'],
+    'coverall': ['blackout']
+  } as Record<string, readonly string[]>,
+  OTP: {
+    CODE_LENGTH: 6,
+    TTL: 5 * 60 * 1000, // 5 minutes
+    MAX_ATTEMPTS: 5, // wrong codes before the challenge is dropped
+    RESEND_INTERVAL: 60 * 1000, // 1 minute between codes to the same phone
+    MAX_REQUESTS_PER_HOUR: 5,
+    SECRET: Deno.env.get("BINGO_OTP_SECRET") ?? null // keys the code hashes; generated and stored like SESSION.SECRET
+  },
+  SMS: {
+    SENDER: 'console',
+    OUTBOX_PATH: './sms-outbox.log' // the console sender also appends every message here
+  },
+  RATE_LIMIT: {
+    MAX_MESSAGE_SIZE: 4096, // characters in one player message
+    MAX_CONNECTIONS_PER_IP: 20,
+    AUTH_TIMEOUT: 5 * 60 * 1000, // player sockets that never register or reconnect are closed
+    TRUST_PROXY: false, // take the client IP from X-Forwarded-For when running behind a reverse proxy
+    PER_CONNECTION: {
+      default: { capacity: 20, refillPerSecond: 5 },
+      chat: { capacity: 5, refillPerSecond: 0.5 },
+      mark_number: { capacity: 30, refillPerSecond: 5 },
+      claim_win: { capacity: 3, refillPerSecond: 0.2 },
+      register: { capacity: 3, refillPerSecond: 0.05 },
+      reconnect: { capacity: 5, refillPerSecond: 0.1 },
+      request_code: { capacity: 2, refillPerSecond: 0.02 },
+      verify_code: { capacity: 5, refillPerSecond: 0.1 }
+    } as Record<string, RateLimitRule>,
+    PER_IP: {
+      default: { capacity: 200, refillPerSecond: 50 },
+      chat: { capacity: 30, refillPerSecond: 3 },
+      register: { capacity: 10, refillPerSecond: 0.2 },
+      reconnect: { capacity: 30, refillPerSecond: 1 },
+      request_code: { capacity: 5, refillPerSecond: 0.05 },
+      verify_code: { capacity: 20, refillPerSecond: 0.2 }
+    } as Record<string, RateLimitRule>,
+    BAN_AFTER_VIOLATIONS: 20, // within VIOLATION_WINDOW
+    VIOLATION_WINDOW: 60 * 1000,
+    BAN_DURATION: 15 * 60 * 1000
+  },
+  SESSION: {
+    // Signs player session tokens; when unset a key is generated on first boot and kept in storage
+    SECRET: Deno.env.get("BINGO_SESSION_SECRET") ?? null,
+    TTL: 24 * 60 * 60 * 1000 // 24 hours
+  },
+  PAYMENTS: {
+    PROVIDER: Deno.env.get("BINGO_PAYMENT_PROVIDER") ?? 'mock', // used for player deposits and withdrawal payouts
+    MIN_DEPOSIT: 25,
+    MAX_DEPOSIT: 50000,
+    MOCK: {
+      // The mock confirms any deposit, so it only registers when BINGO_DEV_PAYMENTS=1
+      ENABLED: Deno.env.get("BINGO_DEV_PAYMENTS") === "1",
+      SECRET: Deno.env.get("BINGO_MOCK_PAYMENT_SECRET") ?? crypto.randomUUID(),
+      CALLBACK_DELAY: 2000, // average ms before the simulated callback arrives
+      FAILURE_RATE: 0 // amounts ending in 13 always fail, so failures can be forced
+    }
+  },
+  LOG_RETENTION: 1000,
+  GAME_RECORD_RETENTION: 500,
+  CHAT_RESTORE_LIMIT: 50,
+  // 'kv' persists to Deno KV (needs --unstable-kv before Deno 2), 'memory' keeps nothing across restarts
+  STORAGE: 'kv',
+  KV_PATH: './bingo.kv'
 } as const;
 
 // ============ GLOBAL STATE ============
-const gameState: GameState = {
-  id: `game_${Date.now()}`,
-  gameActive: false,
-  calledNumbers: [],
-  players: new Map(),
-  currentNumber: null,
-  currentDisplay: "",
-  startedAt: null,
-  winner: null,
-  prizePool: 0,
-  totalCollected: 0,
-  totalPaidOut: 0,
-  boardTypes: CONFIG.BOARD_TYPES,
-  maxPlayers: CONFIG.MAX_PLAYERS,
-  autoCallInterval: null
-};
-
+const rooms = new Map<string, Room>();
+const gameRecords = new Map<string, GameRecord>();
+const accounts = new Map<string, PlayerAccount>(); // keyed by phone
+const withdrawals = new Map<string, Withdrawal>();
+const sessions = new Map<string, PlayerSession>();
+const socketSessions = new Map<WebSocket, PlayerSession>(); // the identity each player socket acts as
+const otpChallenges = new Map<string, OtpChallenge>();
+const otpRequests = new Map<string, Date[]>(); // codes sent per phone in the last hour
+const clientLimits = new Map<string, ClientLimits>(); // keyed by IP
+const socketLimits = new Map<WebSocket, { ip: string; buckets: Map<string, TokenBucket>; authTimer?: number }>();
+const verifiedSockets = new Map<WebSocket, string>(); // phone proven on each socket
+const deposits = new Map<string, Deposit>();
+const gameSessions = new Map<string, GameSession>();
 const adminConnections = new Set<AdminConnection>();
-const chatHistory: ChatMessage[] = [];
+const adminUsers = new Map<string, AdminUser>(); // keyed by username
+const adminSessions = new Map<string, AdminSession>();
+const adminTickets = new Map<string, { sessionId: string; expiresAt: number }>();
 const gameLog: string[] = [];
 
 // ============ UTILITY FUNCTIONS ============
@@ -102,10 +766,10 @@ function logEvent(message: string) {
   }
 }
 
-function calculatePrize(stake: number, totalPlayers: number): number {
-  const pool = stake * totalPlayers * 0.8; // 80% goes to prize pool
-  const afterFee = pool * (1 - CONFIG.SERVICE_FEE);
-  return Math.floor(afterFee);
+function getBallCount(boardType: string): number {
+  return boardType === '90ball' ? 90 :
+         boardType === '30ball' ? 30 :
+         boardType === '50ball' ? 50 : 75;
 }
 
 function getNumberDisplay(number: number, boardType: string): string {
@@ -119,80 +783,15 @@ function getNumberDisplay(number: number, boardType: string): string {
   return number.toString();
 }
 
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: () => number = Math.random): T[] {
   const newArray = [...array];
   for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
   }
   return newArray;
 }
 
-function generateBoardNumbers(boardType: string, boardNumber: number): number[] {
-  // Use boardNumber as seed for reproducibility
-  const seed = boardNumber * 1000;
-  const numbers: number[] = [];
-  
-  switch(boardType) {
-    case '75ball':
-      // 5x5 board with FREE in center
-      const ranges = [[1,15], [16,30], [31,45], [46,60], [61,75]];
-      for (let col = 0; col < 5; col++) {
-        const [min, max] = ranges[col];
-        const colNumbers = new Set<number>();
-        while (colNumbers.size < 5) {
-          const num = Math.floor(Math.random() * (max - min + 1)) + min;
-          colNumbers.add(num);
-        }
-        numbers.push(...Array.from(colNumbers));
-      }
-      break;
-      
-    case '90ball':
-      // 9x3 grid with 15 numbers
-      let allNumbers = Array.from({length: 90}, (_, i) => i + 1);
-      allNumbers = shuffleArray(allNumbers).slice(0, 15);
-      numbers.push(...allNumbers.sort((a, b) => a - b));
-      break;
-      
-    case '30ball':
-      // 3x3 grid with 9 numbers
-      let thirtyNumbers = Array.from({length: 30}, (_, i) => i + 1);
-      thirtyNumbers = shuffleArray(thirtyNumbers).slice(0, 9);
-      numbers.push(...thirtyNumbers.sort((a, b) => a - b));
-      break;
-      
-    case '50ball':
-      // 5x5 board
-      const fiftyRanges = [[1,10], [11,20], [21,30], [31,40], [41,50]];
-      for (let col = 0; col < 5; col++) {
-        const [min, max] = fiftyRanges[col];
-        const colNumbers = new Set<number>();
-        while (colNumbers.size < 5) {
-          const num = Math.floor(Math.random() * (max - min + 1)) + min;
-          colNumbers.add(num);
-        }
-        numbers.push(...Array.from(colNumbers));
-      }
-      break;
-      
-    default:
-      // Default to 75-ball
-      const defaultRanges = [[1,15], [16,30], [31,45], [46,60], [61,75]];
-      for (let col = 0; col < 5; col++) {
-        const [min, max] = defaultRanges[col];
-        const colNumbers = new Set<number>();
-        while (colNumbers.size < 5) {
-          const num = Math.floor(Math.random() * (max - min + 1)) + min;
-          colNumbers.add(num);
-        }
-        numbers.push(...Array.from(colNumbers));
-      }
-  }
-  
-  return numbers;
-}
-
 function validatePhone(phone: string): boolean {
   return /^09\d{8}$/.test(phone);
 }
@@ -201,550 +800,6103 @@ function validateName(name: string): boolean {
   return name.trim().length >= 2 && name.trim().length <= 50;
 }
 
-// ============ GAME CONTROL FUNCTIONS ============
-function startGame() {
-  if (gameState.gameActive) {
-    return { success: false, message: "Game already active" };
-  }
-  
-  if (gameState.players.size < 2) {
-    return { success: false, message: "Need at least 2 players to start" };
+// ============ CARD FACTORY ============
+// Cards are derived from (boardType, boardNumber, salt) through a seeded PRNG,
+// so the same board number always produces the same card for a given deck.
+function hashSeed(input: string): number {
+  // FNV-1a 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
-  
-  gameState.gameActive = true;
-  gameState.startedAt = new Date();
-  gameState.calledNumbers = [];
-  gameState.currentNumber = null;
-  gameState.currentDisplay = "";
-  gameState.winner = null;
-  
-  // Reset all player states
-  for (const player of gameState.players.values()) {
-    player.markedNumbers = [];
-    player.isWinner = false;
-  }
-  
-  // Start auto-calling
-  startAutoCalling();
-  
-  logEvent(`Game started with ${gameState.players.size} players`);
-  
-  // Broadcast to all
-  broadcastToPlayers({
-    type: "game_started",
-    startedAt: gameState.startedAt.toISOString(),
-    totalPlayers: gameState.players.size,
-    prizePool: gameState.prizePool
-  });
-  
-  notifyAdmins({
-    type: "game_started_admin",
-    startedAt: gameState.startedAt.toISOString(),
-    totalPlayers: gameState.players.size,
-    prizePool: gameState.prizePool,
-    players: Array.from(gameState.players.values()).map(p => ({
-      id: p.id,
-      name: p.name,
-      boardType: p.boardType,
-      stake: p.stake
-    }))
-  });
-  
-  return { success: true, message: "Game started successfully" };
+  return hash >>> 0;
 }
 
-function stopGame() {
-  if (!gameState.gameActive) {
-    return { success: false, message: "Game not active" };
-  }
-  
-  gameState.gameActive = false;
-  stopAutoCalling();
-  
-  logEvent("Game stopped");
-  
-  broadcastToPlayers({
-    type: "game_stopped"
-  });
-  
-  notifyAdmins({
-    type: "game_stopped_admin"
+function createRng(seed: number): () => number {
+  // mulberry32
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateColumnGrid(ranges: number[][], random: () => number): number[] {
+  // 5x5 grid in row-major order (index = row * 5 + col), center is FREE
+  const columns = ranges.map(([min, max]) => {
+    const range = Array.from({length: max - min + 1}, (_, i) => min + i);
+    return shuffleArray(range, random).slice(0, 5);
   });
   
-  return { success: true, message: "Game stopped" };
+  const grid: number[] = [];
+  for (let row = 0; row < 5; row++) {
+    for (let col = 0; col < 5; col++) {
+      grid.push(columns[col][row]);
+    }
+  }
+  return grid;
 }
 
-function resetGame() {
-  stopGame();
+function distributeStripColumns(columnSizes: number[], random: () => number): number[][] | null {
+  // Every ticket gets at least one number per column and 15 numbers in total
+  const counts = Array.from({length: 6}, () => Array(9).fill(1));
+  const ticketTotals = Array(6).fill(9);
   
-  gameState.calledNumbers = [];
-  gameState.currentNumber = null;
-  gameState.currentDisplay = "";
-  gameState.startedAt = null;
-  gameState.winner = null;
-  
-  // Reset player game state but keep registration
-  for (const player of gameState.players.values()) {
-    player.markedNumbers = [];
-    player.isWinner = false;
+  // Place the columns with the most extra numbers first
+  const columnOrder = columnSizes
+    .map((size, col) => ({ col, extras: size - 6 }))
+    .sort((a, b) => b.extras - a.extras);
+    
+  for (const { col, extras } of columnOrder) {
+    for (let i = 0; i < extras; i++) {
+      const candidates = [0, 1, 2, 3, 4, 5].filter(t => ticketTotals[t] < 15 && counts[t][col] < 3);
+      if (candidates.length === 0) return null;
+      const ticket = candidates[Math.floor(random() * candidates.length)];
+      counts[ticket][col]++;
+      ticketTotals[ticket]++;
+    }
   }
   
-  logEvent("Game reset");
-  
-  broadcastToPlayers({
-    type: "game_reset"
-  });
-  
-  notifyAdmins({
-    type: "game_reset_admin"
-  });
-  
-  return { success: true, message: "Game reset" };
+  return counts;
 }
 
-function callNumber() {
-  if (!gameState.gameActive) {
-    return { success: false, message: "Game not active" };
-  }
+function generate90BallStrip(stripNumber: number, salt: string): number[][] {
+  // A strip is 6 tickets of 3x9 cells that together hold every number 1-90 once.
+  // Tickets are row-major (index = row * 9 + col) with 0 for blank cells.
+  const random = createRng(hashSeed(`90ball-strip:${stripNumber}:${salt}`));
+  const columns = Array.from({length: 9}, (_, col) => {
+    const min = col === 0 ? 1 : col * 10;
+    const max = col === 8 ? 90 : col * 10 + 9;
+    return shuffleArray(Array.from({length: max - min + 1}, (_, i) => min + i), random);
+  });
   
-  if (gameState.winner) {
-    return { success: false, message: "Game already has a winner" };
+  let counts = distributeStripColumns(columns.map(c => c.length), random);
+  while (!counts) {
+    counts = distributeStripColumns(columns.map(c => c.length), random);
   }
   
-  let newNumber: number;
-  let attempts = 0;
-  
-  // Generate unique number based on game type
-  do {
-    if (gameState.players.size > 0) {
-      // Use first player's board type as reference
-      const firstPlayer = Array.from(gameState.players.values())[0];
-      const maxNumber = firstPlayer.boardType === '90ball' ? 90 : 
-                       firstPlayer.boardType === '30ball' ? 30 :
-                       firstPlayer.boardType === '50ball' ? 50 : 75;
-      newNumber = Math.floor(Math.random() * maxNumber) + 1;
-    } else {
-      newNumber = Math.floor(Math.random() * 75) + 1;
+  const tickets: number[][] = [];
+  for (let ticket = 0; ticket < 6; ticket++) {
+    const cells = Array(27).fill(0);
+    const rowCapacity = [5, 5, 5];
+    
+    // Fill the fullest columns first, always into the rows with the most room left
+    const columnOrder = shuffleArray([0, 1, 2, 3, 4, 5, 6, 7, 8], random)
+      .sort((a, b) => counts![ticket][b] - counts![ticket][a]);
+      
+    for (const col of columnOrder) {
+      const count = counts[ticket][col];
+      const rows = shuffleArray([0, 1, 2], random)
+        .sort((a, b) => rowCapacity[b] - rowCapacity[a])
+        .slice(0, count)
+        .sort((a, b) => a - b);
+      const numbers = columns[col].splice(0, count).sort((a, b) => a - b);
+      
+      rows.forEach((row, i) => {
+        cells[row * 9 + col] = numbers[i];
+        rowCapacity[row]--;
+      });
     }
-    attempts++;
-  } while (gameState.calledNumbers.includes(newNumber) && attempts < 100);
-  
-  if (attempts >= 100) {
-    return { success: false, message: "Failed to generate unique number" };
+    
+    tickets.push(cells);
   }
   
-  gameState.calledNumbers.push(newNumber);
-  gameState.currentNumber = newNumber;
-  
-  // Get display format
-  const display = getNumberDisplay(newNumber, '75ball'); // Default to 75-ball format
-  
-  gameState.currentDisplay = display;
-  
-  logEvent(`Number called: ${display}`);
+  return tickets;
+}
+
+function generateBoardNumbers(boardType: string, boardNumber: number, salt: string): number[] {
+  const random = createRng(hashSeed(`${boardType}:${boardNumber}:${salt}`));
   
-  // Check for winners
-  checkWinners(newNumber);
+  switch(boardType) {
+    case '90ball': {
+      // Board numbers 1-6 are the tickets of strip 1, 7-12 of strip 2, ...
+      const strip = generate90BallStrip(Math.ceil(boardNumber / 6), salt);
+      return strip[(boardNumber - 1) % 6];
+    }
+    
+    case '30ball': {
+      // 3x3 grid with 9 numbers
+      const thirtyNumbers = Array.from({length: 30}, (_, i) => i + 1);
+      return shuffleArray(thirtyNumbers, random).slice(0, 9).sort((a, b) => a - b);
+    }
+    
+    case '50ball':
+      return generateColumnGrid([[1,10], [11,20], [21,30], [31,40], [41,50]], random);
+      
+    case '75ball':
+    default:
+      // 75-ball layout is also used for pattern and coverall boards
+      return generateColumnGrid([[1,15], [16,30], [31,45], [46,60], [61,75]], random);
+  }
+}
+
+// A player's cards as clients draw them: the grid plus what has been daubed on it
+function getCardSummaries(room: Room, player: Player) {
+  return player.cards.map(card => ({
+    boardNumber: card.boardNumber,
+    numbers: generateBoardNumbers(player.boardType, card.boardNumber, room.cardSalt),
+    markedNumbers: card.markedNumbers,
+    voided: card.voided
+  }));
+}
+
+function getDeck(boardType: string, salt: string) {
+  return Array.from({length: CONFIG.CARDS_PER_DECK}, (_, i) => ({
+    boardNumber: i + 1,
+    numbers: generateBoardNumbers(boardType, i + 1, salt)
+  }));
+}
+
+// ============ BALL DRAW ============
+// The full ball set is shuffled when a game starts and the order is committed
+// to with a hash; the seed is revealed when the game ends so anyone can check
+// that the calls followed the committed order.
+const DRAW_ALGORITHM = "Fisher-Yates from the last index down; j = uint32be(sha256(seed + ':' + i)) mod (i + 1). " +
+  "Commitment = sha256(seed + ':' + drawOrder.join(','))";
+
+function sha256Hex(input: string): string {
+  return toHashString(stdCrypto.subtle.digestSync("SHA-256", new TextEncoder().encode(input)));
+}
+
+function shuffleWithSeed(balls: number[], seed: string): number[] {
+  const order = [...balls];
+  for (let i = order.length - 1; i > 0; i--) {
+    const digest = stdCrypto.subtle.digestSync("SHA-256", new TextEncoder().encode(`${seed}:${i}`));
+    const j = new DataView(digest).getUint32(0) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+function createDrawCommitment(drawOrder: number[], seed: string): string {
+  return sha256Hex(`${seed}:${drawOrder.join(',')}`);
+}
+
+function prepareDraw(room: Room): GameRecord {
+  const seedBytes = crypto.getRandomValues(new Uint8Array(32));
+  const seed = Array.from(seedBytes, b => b.toString(16).padStart(2, '0')).join('');
+  const balls = Array.from({length: getBallCount(room.boardType)}, (_, i) => i + 1);
+  const drawOrder = shuffleWithSeed(balls, seed);
+  
+  const record: GameRecord = {
+    gameId: room.gameId!,
+    roomId: room.id,
+    boardType: room.boardType,
+    commitment: createDrawCommitment(drawOrder, seed),
+    seed,
+    drawOrder,
+    calledNumbers: room.calledNumbers,
+    calls: [],
+    cards: getCardsInPlay(room),
+    cardSalt: room.cardSalt,
+    config: getGameConfig(room),
+    claims: [],
+    winners: [],
+    prizePool: room.prizePool,
+    startedAt: new Date(),
+    endedAt: null,
+    revealedAt: null
+  };
+  
+  gameRecords.set(record.gameId, record);
+  if (gameRecords.size > CONFIG.GAME_RECORD_RETENTION) {
+    gameRecords.delete(gameRecords.keys().next().value!);
+  }
+  
+  room.drawOrder = drawOrder;
+  return record;
+}
+
+function revealDraw(room: Room) {
+  const record = room.gameId ? gameRecords.get(room.gameId) : undefined;
+  if (!record || record.revealedAt) return;
+  
+  // The draw is revealed the moment the game ends, won or stopped
+  record.revealedAt = new Date();
+  record.endedAt = record.revealedAt;
+  logEvent(`[${room.id}] Draw revealed for ${record.gameId}`);
+  
+  broadcastToPlayers(room, {
+    type: "draw_revealed",
+    gameId: record.gameId,
+    commitment: record.commitment,
+    seed: record.seed,
+    drawOrder: record.drawOrder
+  });
+}
+
+function verifyDraw(record: GameRecord) {
+  const revealed = record.revealedAt !== null;
+  const result: Record<string, unknown> = {
+    gameId: record.gameId,
+    roomId: record.roomId,
+    boardType: record.boardType,
+    commitment: record.commitment,
+    calledNumbers: record.calledNumbers,
+    startedAt: record.startedAt.toISOString(),
+    revealed,
+    algorithm: DRAW_ALGORITHM
+  };
+  
+  if (!revealed) {
+    return result;
+  }
+  
+  const balls = Array.from({length: getBallCount(record.boardType)}, (_, i) => i + 1);
+  const recomputedOrder = shuffleWithSeed(balls, record.seed);
+  const orderMatchesSeed = recomputedOrder.every((num, i) => num === record.drawOrder[i]);
+  const commitmentMatches = createDrawCommitment(recomputedOrder, record.seed) === record.commitment;
+  const callsFollowOrder = record.calledNumbers.every((num, i) => num === recomputedOrder[i]);
+  
+  return {
+    ...result,
+    seed: record.seed,
+    drawOrder: record.drawOrder,
+    revealedAt: record.revealedAt!.toISOString(),
+    checks: { orderMatchesSeed, commitmentMatches, callsFollowOrder },
+    valid: orderMatchesSeed && commitmentMatches && callsFollowOrder
+  };
+}
+
+// ============ GAME ARCHIVE ============
+// Every game keeps a record of how it was set up, what was called, who claimed and who was paid.
+// Records stop changing once the game ends and are kept for the last GAME_RECORD_RETENTION games.
+function getGameConfig(room: Room): GameConfig {
+  return {
+    roomName: room.name,
+    stakeTier: room.stakeTier,
+    prizeRules: { ...room.prizeRules },
+    claimRules: { ...room.claimRules, falseClaimPenalties: [...room.claimRules.falseClaimPenalties] },
+    callPace: { ...room.callPace },
+    // 30- and 90-ball games are won on their stages, not on grid patterns
+    patterns: CONFIG.DEFAULT_PATTERNS[room.boardType] ? getActivePatterns(room).map(p => p.name) : [],
+    stages: getPrizeStages(room).map(stage => ({ id: stage.id, label: stage.label, share: stage.share }))
+  };
+}
+
+function getCardsInPlay(room: Room): GameCard[] {
+  return Array.from(room.players.values())
+    .filter(player => !player.stakeRefundable)
+    .flatMap(player => player.cards.map(card => ({
+      playerId: player.id,
+      playerName: player.name,
+      boardNumber: card.boardNumber,
+      numbers: generateBoardNumbers(player.boardType, card.boardNumber, room.cardSalt),
+      stake: player.stake
+    })));
+}
+
+function recordClaim(room: Room, player: Player, outcome: GameClaimOutcome, boardNumbers: number[] = [], note: string | null = null) {
+  gameRecords.get(room.gameId!)?.claims.push({
+    playerId: player.id,
+    playerName: player.name,
+    boardNumbers,
+    outcome,
+    note,
+    at: new Date()
+  });
+}
+
+function getGameSummary(record: GameRecord) {
+  return {
+    gameId: record.gameId,
+    roomId: record.roomId,
+    roomName: record.config?.roomName ?? rooms.get(record.roomId)?.name ?? null,
+    boardType: record.boardType,
+    startedAt: record.startedAt.toISOString(),
+    endedAt: record.endedAt?.toISOString() ?? null,
+    totalCalled: record.calledNumbers.length,
+    totalCards: record.cards.length,
+    totalPlayers: new Set(record.cards.map(card => card.playerId)).size,
+    prizePool: record.prizePool,
+    winners: record.winners.map(w => ({ playerName: w.playerName, stage: w.stage, prize: w.prize, jackpot: w.jackpot })),
+    revealed: record.revealedAt !== null
+  };
+}
+
+function listGames(roomId: string | null, limit: number) {
+  return Array.from(gameRecords.values())
+    .filter(record => !roomId || record.roomId === roomId)
+    .reverse()
+    .slice(0, limit)
+    .map(getGameSummary);
+}
+
+// The public copy of a record: no phone numbers, and the draw stays secret until it is revealed
+function getGameArchive(record: GameRecord) {
+  const revealed = record.revealedAt !== null;
+  return {
+    ...getGameSummary(record),
+    drawCommitment: record.commitment,
+    seed: revealed ? record.seed : null,
+    drawOrder: revealed ? record.drawOrder : null,
+    revealedAt: record.revealedAt?.toISOString() ?? null,
+    config: record.config,
+    cardSalt: record.cardSalt,
+    cards: record.cards,
+    calls: record.calls.map(call => ({ number: call.number, calledAt: call.calledAt?.toISOString() ?? null })),
+    claims: record.claims.map(claim => ({ ...claim, at: claim.at.toISOString() })),
+    winners: record.winners.map(({ phone: _phone, ...winner }) => ({ ...winner, wonAt: winner.wonAt.toISOString() }))
+  };
+}
+
+// A finished game as timed events, so clients can play it back ball by ball
+function getGameReplay(record: GameRecord) {
+  const start = record.startedAt.getTime();
+  const event = (at: Date, data: Record<string, unknown>) => ({ offset: at.getTime() - start, at: at.toISOString(), ...data });
+  
+  const calls = record.calls.filter(call => call.calledAt).map((call, i) => event(call.calledAt!, {
+    type: "call",
+    number: call.number,
+    display: getNumberDisplay(call.number, record.boardType),
+    totalCalled: i + 1
+  }));
+  const claims = record.claims.map(claim => event(claim.at, {
+    type: "claim",
+    playerId: claim.playerId,
+    playerName: claim.playerName,
+    boardNumbers: claim.boardNumbers,
+    outcome: claim.outcome,
+    note: claim.note
+  }));
+  const wins = record.winners.map(winner => event(winner.wonAt, {
+    type: "win",
+    playerId: winner.playerId,
+    playerName: winner.playerName,
+    boardNumber: winner.boardNumber,
+    stage: winner.stage,
+    pattern: winner.pattern,
+    prize: winner.prize,
+    jackpot: winner.jackpot
+  }));
+  
+  // Sorting is stable, so a ball comes before the claims and wins it caused
+  const events = [...calls, ...claims, ...wins].sort((a, b) => a.offset - b.offset);
+  events.push(event(record.endedAt!, { type: "end" }));
+  
+  return {
+    gameId: record.gameId,
+    roomId: record.roomId,
+    boardType: record.boardType,
+    startedAt: record.startedAt.toISOString(),
+    duration: record.endedAt!.getTime() - start,
+    cards: record.cards,
+    events
+  };
+}
+
+// ============ PATTERN REGISTRY ============
+const FULL_MASK = (1 << 25) - 1;
+const FREE_CELL = 12;
+
+function maskFromRows(rows: string[]): number {
+  // rows like ["X...X", ".X.X.", ...], X marks a required cell
+  let mask = 0;
+  rows.forEach((row, r) => {
+    for (let c = 0; c < 5; c++) {
+      if (row[c] === 'X' || row[c] === 'x' || row[c] === '1') {
+        mask |= 1 << (r * 5 + c);
+      }
+    }
+  });
+  return mask;
+}
+
+function rotateMask(mask: number): number {
+  // 90 degrees clockwise
+  let rotated = 0;
+  for (let r = 0; r < 5; r++) {
+    for (let c = 0; c < 5; c++) {
+      if (mask & (1 << (r * 5 + c))) {
+        rotated |= 1 << (c * 5 + (4 - r));
+      }
+    }
+  }
+  return rotated;
+}
+
+function allRotations(mask: number): number[] {
+  const masks = [mask];
+  for (let i = 0; i < 3; i++) {
+    masks.push(rotateMask(masks[masks.length - 1]));
+  }
+  return Array.from(new Set(masks));
+}
+
+const patternRegistry = new Map<string, WinningPattern>();
+
+function registerPattern(name: string, label: string, masks: number[], builtIn = false) {
+  patternRegistry.set(name, { name, label, masks: Array.from(new Set(masks)), builtIn });
+}
+
+registerPattern('any_line', 'Any Line', [
+  ...[0, 1, 2, 3, 4].map(row => 0b11111 << (row * 5)),
+  ...[0, 1, 2, 3, 4].map(col => 0x108421 << col), // bits 0, 5, 10, 15, 20
+  maskFromRows(['X....', '.X...', '..X..', '...X.', '....X']),
+  maskFromRows(['....X', '...X.', '..X..', '.X...', 'X....'])
+], true);
+registerPattern('four_corners', 'Four Corners', [maskFromRows(['X...X', '.....', '.....', '.....', 'X...X'])], true);
+registerPattern('blackout', 'Blackout', [FULL_MASK], true);
+registerPattern('x', 'Letter X', [maskFromRows(['X...X', '.X.X.', '..X..', '.X.X.', 'X...X'])], true);
+registerPattern('letter_t', 'Letter T', [maskFromRows(['XXXXX', '..X..', '..X..', '..X..', '..X..'])], true);
+registerPattern('letter_l', 'Letter L', [maskFromRows(['X....', 'X....', 'X....', 'X....', 'XXXXX'])], true);
+registerPattern('postage_stamp', 'Postage Stamp', allRotations(maskFromRows(['XX...', 'XX...', '.....', '.....', '.....'])), true);
+registerPattern('small_frame', 'Small Frame', [maskFromRows(['.....', '.XXX.', '.X.X.', '.XXX.', '.....'])], true);
+registerPattern('large_frame', 'Large Frame', [maskFromRows(['XXXXX', 'X...X', 'X...X', 'X...X', 'XXXXX'])], true);
+registerPattern('crazy_t', 'Crazy T', allRotations(maskFromRows(['XXXXX', '..X..', '..X..', '..X..', '..X..'])), true);
+
+function getActivePatterns(room: Room): WinningPattern[] {
+  const names = room.activePatterns ?? CONFIG.DEFAULT_PATTERNS[room.boardType] ?? CONFIG.DEFAULT_PATTERNS['75ball'];
+  return names
+    .map(name => patternRegistry.get(name))
+    .filter((pattern): pattern is WinningPattern => pattern !== undefined);
+}
+
+function matchPattern(markedSet: Set<number>, boardNumbers: number[], patterns: WinningPattern[], freeCenter: boolean): PatternMatch | null {
+  let markedMask = 0;
+  boardNumbers.forEach((num, index) => {
+    if (markedSet.has(num) || (freeCenter && index === FREE_CELL)) {
+      markedMask |= 1 << index;
+    }
+  });
+  
+  for (const pattern of patterns) {
+    if (pattern.masks.some(mask => (markedMask & mask) === mask)) {
+      return { name: pattern.name, label: pattern.label };
+    }
+  }
+  return null;
+}
+
+function definePattern(data: AdminMessage<'admin_define_pattern'>) {
+  const name = data.name?.toString().trim().toLowerCase();
+  if (!name || !/^[a-z0-9_]{2,32}$/.test(name)) {
+    return { success: false, code: "INVALID_FIELD", message: "Pattern name must be 2-32 characters (a-z, 0-9, _)" };
+  }
+  
+  if (patternRegistry.get(name)?.builtIn) {
+    return { success: false, code: "BUILT_IN_PATTERN", message: `Cannot redefine built-in pattern ${name}` };
+  }
+  
+  const masks: number[] = Array.isArray(data.grid)
+    ? [maskFromRows(data.grid.map((row: unknown) => String(row)))]
+    : Array.isArray(data.masks) ? data.masks.map((mask: unknown) => Number(mask)) : [];
+    
+  if (masks.length === 0 || masks.some(mask => !Number.isInteger(mask) || mask <= 0 || mask > FULL_MASK)) {
+    return { success: false, code: "INVALID_FIELD", message: "Pattern needs at least one non-empty 5x5 mask" };
+  }
+  
+  const label = data.label?.toString().trim() || name;
+  registerPattern(name, label, masks);
+  persist(storage.savePattern(patternRegistry.get(name)!), `pattern ${name}`);
+  logEvent(`Pattern defined: ${name} (${masks.length} mask${masks.length === 1 ? '' : 's'})`);
+  
+  return { success: true, message: `Pattern ${name} defined` };
+}
+
+function setActivePatterns(room: Room, data: Pick<AdminMessage<'admin_set_pattern'>, 'patterns'>) {
+  if (room.gameActive) {
+    return { success: false, code: "GAME_ACTIVE", message: "Cannot change patterns while a game is active" };
+  }
+  
+  const names: string[] = Array.isArray(data.patterns) ? data.patterns : data.patterns ? [data.patterns] : [];
+  if (names.length === 0) {
+    room.activePatterns = null;
+    saveRoom(room);
+    logEvent(`[${room.id}] Active patterns reset to board defaults`);
+    return { success: true, message: "Patterns reset to board defaults" };
+  }
+  
+  const unknown = names.filter(name => !patternRegistry.has(name));
+  if (unknown.length > 0) {
+    return { success: false, code: "UNKNOWN_PATTERN", message: `Unknown pattern(s): ${unknown.join(', ')}` };
+  }
+  
+  room.activePatterns = names;
+  saveRoom(room);
+  logEvent(`[${room.id}] Active patterns set: ${names.join(', ')}`);
+  
+  broadcastToPlayers(room, {
+    type: "patterns_changed",
+    patterns: getPatternSummary(room)
+  });
+  
+  return { success: true, message: `Active patterns: ${names.join(', ')}` };
+}
+
+function getPatternSummary(room: Room) {
+  return getActivePatterns(room).map(p => ({ name: p.name, label: p.label, masks: p.masks }));
+}
+
+// ============ STORAGE ============
+let storage: Storage;
+
+function createMemoryStorage(): Storage {
+  const accountStore = new Map<string, PlayerAccount>();
+  const roomStore = new Map<string, RoomSnapshot>();
+  const gameStore = new Map<string, GameRecord>();
+  const chatStore = new Map<string, ChatMessage[]>();
+  const patternStore = new Map<string, WinningPattern>();
+  const ledgerStore: LedgerEntry[] = [];
+  const auditStore: AuditEntry[] = [];
+  const withdrawalStore = new Map<string, Withdrawal>();
+  const depositStore = new Map<string, Deposit>();
+  const sessionStore = new Map<string, PlayerSession>();
+  const adminUserStore = new Map<string, AdminUser>();
+  const adminSessionStore = new Map<string, AdminSession>();
+  const scheduleStore = new Map<string, GameSession>();
+  const secretStore = new Map<string, string>();
+  
+  return {
+    loadAccounts() {
+      return Promise.resolve(Array.from(accountStore.values(), a => structuredClone(a)));
+    },
+    saveAccount(account) {
+      accountStore.set(account.phone, structuredClone(account));
+      return Promise.resolve();
+    },
+    loadRooms() {
+      return Promise.resolve(Array.from(roomStore.values(), r => structuredClone(r)));
+    },
+    saveRoom(snapshot) {
+      roomStore.set(snapshot.id, structuredClone(snapshot));
+      return Promise.resolve();
+    },
+    deleteRoom(roomId) {
+      roomStore.delete(roomId);
+      return Promise.resolve();
+    },
+    loadGames(limit) {
+      return Promise.resolve(Array.from(gameStore.values(), g => structuredClone(g)).slice(-limit));
+    },
+    saveGame(record) {
+      gameStore.set(record.gameId, structuredClone(record));
+      return Promise.resolve();
+    },
+    loadChat(roomId, limit) {
+      return Promise.resolve((chatStore.get(roomId) ?? []).slice(-limit).map(m => structuredClone(m)));
+    },
+    appendChat(roomId, message) {
+      const history = chatStore.get(roomId) ?? [];
+      history.push(structuredClone(message));
+      if (history.length > CONFIG.CHAT_RESTORE_LIMIT) {
+        history.shift();
+      }
+      chatStore.set(roomId, history);
+      return Promise.resolve();
+    },
+    loadPatterns() {
+      return Promise.resolve(Array.from(patternStore.values(), p => structuredClone(p)));
+    },
+    savePattern(pattern) {
+      patternStore.set(pattern.name, structuredClone(pattern));
+      return Promise.resolve();
+    },
+    loadLedger() {
+      return Promise.resolve(ledgerStore.map(e => structuredClone(e)));
+    },
+    appendLedgerEntry(entry) {
+      ledgerStore.push(structuredClone(entry));
+      return Promise.resolve();
+    },
+    loadAudit() {
+      return Promise.resolve(auditStore.map(e => structuredClone(e)));
+    },
+    appendAuditEntry(entry) {
+      auditStore.push(structuredClone(entry));
+      return Promise.resolve();
+    },
+    loadSchedules() {
+      return Promise.resolve(Array.from(scheduleStore.values(), s => structuredClone(s)));
+    },
+    saveSchedule(session) {
+      scheduleStore.set(session.id, structuredClone(session));
+      return Promise.resolve();
+    },
+    loadWithdrawals() {
+      return Promise.resolve(Array.from(withdrawalStore.values(), w => structuredClone(w)));
+    },
+    saveWithdrawal(withdrawal) {
+      withdrawalStore.set(withdrawal.id, structuredClone(withdrawal));
+      return Promise.resolve();
+    },
+    loadDeposits() {
+      return Promise.resolve(Array.from(depositStore.values(), d => structuredClone(d)));
+    },
+    saveDeposit(deposit) {
+      depositStore.set(deposit.id, structuredClone(deposit));
+      return Promise.resolve();
+    },
+    loadSessions() {
+      return Promise.resolve(Array.from(sessionStore.values(), s => structuredClone(s)));
+    },
+    saveSession(session) {
+      sessionStore.set(session.id, structuredClone(session));
+      return Promise.resolve();
+    },
+    deleteSession(sessionId) {
+      sessionStore.delete(sessionId);
+      return Promise.resolve();
+    },
+    loadAdminUsers() {
+      return Promise.resolve(Array.from(adminUserStore.values(), u => structuredClone(u)));
+    },
+    saveAdminUser(user) {
+      adminUserStore.set(user.username, structuredClone(user));
+      return Promise.resolve();
+    },
+    loadAdminSessions() {
+      return Promise.resolve(Array.from(adminSessionStore.values(), s => structuredClone(s)));
+    },
+    saveAdminSession(session) {
+      adminSessionStore.set(session.id, structuredClone(session));
+      return Promise.resolve();
+    },
+    deleteAdminSession(sessionId) {
+      adminSessionStore.delete(sessionId);
+      return Promise.resolve();
+    },
+    loadSecret(name) {
+      return Promise.resolve(secretStore.get(name) ?? null);
+    },
+    saveSecret(name, value) {
+      secretStore.set(name, value);
+      return Promise.resolve();
+    }
+  };
+}
+
+function createKvStorage(kv: Deno.Kv): Storage {
+  async function listValues<T>(prefix: Deno.KvKey, options: Deno.KvListOptions = {}): Promise<T[]> {
+    const values: T[] = [];
+    for await (const entry of kv.list<T>({ prefix }, options)) {
+      values.push(entry.value);
+    }
+    return values;
+  }
+  
+  // A game's cards and claims are stored in chunks under their own keys, since a busy game's record
+  // would outgrow the 64 KiB KV value limit; calls stay inline, there is at most one per ball
+  const GAME_CHUNK_SIZE = 100;
+  const storedClaims = new Map<string, number>(); // claims already written per game, set once its cards are
+  
+  async function loadChunks<T>(prefix: Deno.KvKey): Promise<T[]> {
+    return (await listValues<T[]>(prefix)).flat();
+  }
+  
+  // Chunks before the one holding item `from` are already stored and left alone
+  async function saveChunks<T>(prefix: Deno.KvKey, items: T[], from = 0) {
+    for (let start = from - from % GAME_CHUNK_SIZE; start < items.length; start += GAME_CHUNK_SIZE) {
+      await kv.set([...prefix, start / GAME_CHUNK_SIZE], items.slice(start, start + GAME_CHUNK_SIZE));
+    }
+  }
+  
+  return {
+    loadAccounts() {
+      return listValues<PlayerAccount>(["accounts"]);
+    },
+    async saveAccount(account) {
+      await kv.set(["accounts", account.phone], account);
+    },
+    loadRooms() {
+      return listValues<RoomSnapshot>(["rooms"]);
+    },
+    async saveRoom(snapshot) {
+      await kv.set(["rooms", snapshot.id], snapshot);
+    },
+    async deleteRoom(roomId) {
+      await kv.delete(["rooms", roomId]);
+    },
+    async loadGames(limit) {
+      // Game ids start with a timestamp, so key order is start order
+      const games = await listValues<GameRecord>(["games"], { reverse: true, limit });
+      // Records saved before the chunks existed carry their cards and claims inline
+      for (const game of games) {
+        game.cards ??= await loadChunks<GameCard>(["game_cards", game.gameId]);
+        game.claims ??= await loadChunks<GameClaim>(["game_claims", game.gameId]);
+      }
+      return games.reverse();
+    },
+    async saveGame(record) {
+      const { cards, claims, ...rest } = record;
+      const stored = storedClaims.get(record.gameId);
+      // Cards are fixed once the first ball is drawn
+      if (stored === undefined) {
+        await saveChunks(["game_cards", record.gameId], cards);
+      }
+      await saveChunks(["game_claims", record.gameId], claims, stored ?? 0);
+      await kv.set(["games", record.gameId], rest);
+      storedClaims.set(record.gameId, claims.length);
+    },
+    async loadChat(roomId, limit) {
+      const messages = await listValues<ChatMessage>(["chat", roomId], { reverse: true, limit });
+      return messages.reverse();
+    },
+    async appendChat(roomId, message) {
+      await kv.set(["chat", roomId, message.timestamp.getTime(), crypto.randomUUID()], message);
+      // Only the latest messages are ever restored, so older ones are dropped as new ones arrive
+      let kept = 0;
+      for await (const entry of kv.list({ prefix: ["chat", roomId] }, { reverse: true })) {
+        if (++kept > CONFIG.CHAT_RESTORE_LIMIT) {
+          await kv.delete(entry.key);
+        }
+      }
+    },
+    loadPatterns() {
+      return listValues<WinningPattern>(["patterns"]);
+    },
+    async savePattern(pattern) {
+      await kv.set(["patterns", pattern.name], pattern);
+    },
+    loadLedger() {
+      return listValues<LedgerEntry>(["ledger"]);
+    },
+    async appendLedgerEntry(entry) {
+      // Entries are never overwritten, a second write with the same sequence number is a bug
+      const result = await kv.atomic()
+        .check({ key: ["ledger", entry.seq], versionstamp: null })
+        .set(["ledger", entry.seq], entry)
+        .commit();
+      if (!result.ok) {
+        throw new Error(`Ledger entry ${entry.seq} already exists`);
+      }
+    },
+    loadAudit() {
+      return listValues<AuditEntry>(["audit"]);
+    },
+    async appendAuditEntry(entry) {
+      // The audit chain is append-only, same as the ledger
+      const result = await kv.atomic()
+        .check({ key: ["audit", entry.seq], versionstamp: null })
+        .set(["audit", entry.seq], entry)
+        .commit();
+      if (!result.ok) {
+        throw new Error(`Audit entry ${entry.seq} already exists`);
+      }
+    },
+    loadSchedules() {
+      return listValues<GameSession>(["schedules"]);
+    },
+    async saveSchedule(session) {
+      await kv.set(["schedules", session.id], session);
+    },
+    loadWithdrawals() {
+      return listValues<Withdrawal>(["withdrawals"]);
+    },
+    async saveWithdrawal(withdrawal) {
+      await kv.set(["withdrawals", withdrawal.id], withdrawal);
+    },
+    loadDeposits() {
+      return listValues<Deposit>(["deposits"]);
+    },
+    async saveDeposit(deposit) {
+      await kv.set(["deposits", deposit.id], deposit);
+    },
+    loadSessions() {
+      return listValues<PlayerSession>(["sessions"]);
+    },
+    async saveSession(session) {
+      await kv.set(["sessions", session.id], session);
+    },
+    async deleteSession(sessionId) {
+      await kv.delete(["sessions", sessionId]);
+    },
+    loadAdminUsers() {
+      return listValues<AdminUser>(["admin_users"]);
+    },
+    async saveAdminUser(user) {
+      await kv.set(["admin_users", user.username], user);
+    },
+    loadAdminSessions() {
+      return listValues<AdminSession>(["admin_sessions"]);
+    },
+    async saveAdminSession(session) {
+      await kv.set(["admin_sessions", session.id], session);
+    },
+    async deleteAdminSession(sessionId) {
+      await kv.delete(["admin_sessions", sessionId]);
+    },
+    async loadSecret(name) {
+      return (await kv.get<string>(["secrets", name])).value;
+    },
+    async saveSecret(name, value) {
+      await kv.set(["secrets", name], value);
+    }
+  };
+}
+
+async function openStorage(): Promise<Storage> {
+  if (CONFIG.STORAGE === 'kv') {
+    try {
+      const kv = await Deno.openKv(CONFIG.KV_PATH);
+      logEvent(`Storage: Deno KV (${CONFIG.KV_PATH})`);
+      return createKvStorage(kv);
+    } catch (error) {
+      console.error("Could not open Deno KV, falling back to memory storage:", error);
+    }
+  }
+  
+  logEvent("Storage: memory (state will not survive a restart)");
+  return createMemoryStorage();
+}
+
+// Storage writes run in the background so a slow disk never stalls a game
+function persist(task: Promise<void>, what: string) {
+  task.catch(error => console.error(`Failed to persist ${what}:`, error));
+}
+
+function getAccount(phone: string, name: string): PlayerAccount {
+  let account = accounts.get(phone);
+  if (!account) {
+    account = {
+      phone,
+      name,
+      totalWon: 0,
+      gamesPlayed: 0,
+      verifiedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    accounts.set(phone, account);
+  }
+  return account;
+}
+
+function saveAccount(account: PlayerAccount) {
+  account.updatedAt = new Date();
+  persist(storage.saveAccount(account), `account ${account.phone}`);
+}
+
+function snapshotRoom(room: Room): RoomSnapshot {
+  return {
+    id: room.id,
+    gameId: room.gameId,
+    name: room.name,
+    boardType: room.boardType,
+    stakeTier: room.stakeTier,
+    maxPlayers: room.maxPlayers,
+    createdAt: room.createdAt,
+    gameActive: room.gameActive,
+    phase: room.phase,
+    lifecycle: room.lifecycle,
+    calledNumbers: room.calledNumbers,
+    drawOrder: room.drawOrder,
+    currentNumber: room.currentNumber,
+    startedAt: room.startedAt,
+    winnerId: room.winner?.id ?? null,
+    prizePool: room.prizePool,
+    prizeRules: room.prizeRules,
+    claimRules: room.claimRules,
+    callPace: room.callPace,
+    pausedAt: room.pausedAt,
+    pauseReason: room.pauseReason,
+    claimReview: room.claimReview ? {
+      heldAt: room.claimReview.heldAt,
+      claims: room.claimReview.claims.map(({ player, card }) => ({ playerId: player.id, boardNumber: card.boardNumber }))
+    } : null,
+    totalCollected: room.totalCollected,
+    totalPaidOut: room.totalPaidOut,
+    cardSalt: room.cardSalt,
+    stageIndex: room.stageIndex,
+    stageWinners: room.stageWinners.map(w => ({
+      stageId: w.stage.id,
+      playerId: w.player.id,
+      prize: w.prize,
+      wonAt: w.wonAt
+    })),
+    activePatterns: room.activePatterns,
+    players: Array.from(room.players.values(), p => ({
+      id: p.id,
+      name: p.name,
+      phone: p.phone,
+      boardType: p.boardType,
+      cards: p.cards,
+      stake: p.stake,
+      roomId: p.roomId,
+      joinedAt: p.joinedAt,
+      isWinner: p.isWinner,
+      stakeRefundable: p.stakeRefundable,
+      falseClaims: p.falseClaims,
+      lockedOut: p.lockedOut
+    }))
+  };
+}
+
+// Saves the room and the record of its current game, including the called-number sequence
+function saveRoom(room: Room) {
+  persist(storage.saveRoom(snapshotRoom(room)), `room ${room.id}`);
+  
+  const record = room.gameId ? gameRecords.get(room.gameId) : undefined;
+  if (record) {
+    persist(storage.saveGame(record), `game ${record.gameId}`);
+  }
+}
+
+function restoreRoom(snapshot: RoomSnapshot): Room {
+  const room = createRoom({
+    id: snapshot.id,
+    name: snapshot.name,
+    boardType: snapshot.boardType,
+    stakeTier: snapshot.stakeTier,
+    maxPlayers: snapshot.maxPlayers
+  });
+  
+  room.gameId = snapshot.gameId;
+  room.createdAt = new Date(snapshot.createdAt);
+  room.gameActive = snapshot.gameActive;
+  // Snapshots from before game phases only knew whether a game was running
+  room.phase = snapshot.phase ?? (snapshot.gameActive ? (snapshot.winnerId ? 'paid' : 'calling') : 'lobby');
+  room.lifecycle = { ...room.lifecycle, ...snapshot.lifecycle };
+  room.calledNumbers = snapshot.calledNumbers;
+  room.drawOrder = snapshot.drawOrder;
+  room.currentNumber = snapshot.currentNumber;
+  room.currentDisplay = snapshot.currentNumber ? getNumberDisplay(snapshot.currentNumber, room.boardType) : "";
+  room.startedAt = snapshot.startedAt ? new Date(snapshot.startedAt) : null;
+  room.prizePool = snapshot.prizePool;
+  room.prizeRules = { ...room.prizeRules, ...snapshot.prizeRules };
+  room.claimRules = { ...room.claimRules, ...snapshot.claimRules };
+  room.callPace = { ...room.callPace, ...snapshot.callPace };
+  room.pausedAt = snapshot.pausedAt ? new Date(snapshot.pausedAt) : null;
+  room.pauseReason = snapshot.pauseReason ?? null;
+  room.totalCollected = snapshot.totalCollected;
+  room.totalPaidOut = snapshot.totalPaidOut;
+  room.cardSalt = snapshot.cardSalt;
+  room.stageIndex = snapshot.stageIndex;
+  room.activePatterns = snapshot.activePatterns;
+  
+  for (const stored of snapshot.players) {
+    // Snapshots from before multi-card play kept a single board on the player
+    const { boardNumber, markedNumbers, ...player } = stored as RoomSnapshot['players'][number] & { boardNumber?: number; markedNumbers?: number[] };
+    room.players.set(stored.id, {
+      ...player,
+      cards: (stored.cards ?? [{ boardNumber: boardNumber!, markedNumbers: markedNumbers ?? [] }])
+        .map(card => ({ ...card, voided: card.voided ?? false })),
+      joinedAt: new Date(stored.joinedAt),
+      stakeRefundable: stored.stakeRefundable ?? false,
+      falseClaims: stored.falseClaims ?? 0,
+      lockedOut: stored.lockedOut ?? false,
+      // Give everyone a fresh inactivity window to reconnect after the restart
+      lastActive: new Date(),
+      isOnline: false
+    });
+  }
+  
+  room.winner = snapshot.winnerId ? room.players.get(snapshot.winnerId) ?? null : null;
+  
+  const stages = getPrizeStages(room);
+  for (const stored of snapshot.stageWinners) {
+    const stage = stages.find(s => s.id === stored.stageId);
+    const player = room.players.get(stored.playerId);
+    if (stage && player) {
+      room.stageWinners.push({ stage, player, prize: stored.prize, wonAt: new Date(stored.wonAt) });
+    }
+  }
+  
+  // Called numbers are appended to the room's array, so the game record must share it again
+  const record = room.gameId ? gameRecords.get(room.gameId) : undefined;
+  if (record) {
+    record.calledNumbers = room.calledNumbers;
+  }
+  
+  // Held cards are matched against the patterns again so the review shows what actually won
+  if (snapshot.claimReview) {
+    const claims = snapshot.claimReview.claims.flatMap(({ playerId, boardNumber }) => {
+      const player = room.players.get(playerId);
+      const card = player?.cards.find(c => c.boardNumber === boardNumber);
+      if (!player || !card) return [];
+      const pattern = checkWinningPattern(room, card.markedNumbers, generateBoardNumbers(player.boardType, boardNumber, room.cardSalt));
+      return pattern ? [{ player, card, pattern }] : [];
+    });
+    room.claimReview = claims.length > 0 ? { claims, heldAt: new Date(snapshot.claimReview.heldAt) } : null;
+  }
+  
+  return room;
+}
+
+async function restoreState() {
+  for (const pattern of await storage.loadPatterns()) {
+    registerPattern(pattern.name, pattern.label, pattern.masks);
+  }
+  
+  for (const entry of await storage.loadLedger()) {
+    applyLedgerEntry(entry);
+  }
+  
+  auditEntries.push(...await storage.loadAudit());
+  const auditChain = verifyAuditChain();
+  if (!auditChain.valid) {
+    console.error(`Audit chain broken at entry ${auditChain.brokenAt}: ${auditChain.reason}`);
+  }
+  
+  for (const withdrawal of await storage.loadWithdrawals()) {
+    withdrawals.set(withdrawal.id, withdrawal);
+  }
+  
+  // A payout callback lost while the server was down never arrives, a cashier resolves those by hand
+  const payoutsInFlight = Array.from(withdrawals.values())
+    .filter(w => w.status === 'processing' || w.status === 'approved');
+  if (payoutsInFlight.length > 0) {
+    logEvent(`⚠️ ${payoutsInFlight.length} payouts were in flight at shutdown, check them with the provider: ${payoutsInFlight.map(w => w.id).join(', ')}`);
+  }
+  
+  for (const deposit of await storage.loadDeposits()) {
+    deposits.set(deposit.id, deposit);
+  }
+  
+  for (const session of await storage.loadSessions()) {
+    sessions.set(session.id, session);
+  }
+  
+  for (const user of await storage.loadAdminUsers()) {
+    adminUsers.set(user.username, user);
+  }
+  
+  for (const session of await storage.loadAdminSessions()) {
+    adminSessions.set(session.id, session);
+  }
+  await ensureOwnerAccount();
+  signingKeys.session = await loadSigningKey("session", CONFIG.SESSION.SECRET);
+  signingKeys.otp = await loadSigningKey("otp", CONFIG.OTP.SECRET);
+  
+  for (const account of await storage.loadAccounts()) {
+    accounts.set(account.phone, account);
+    
+    // Accounts saved before the ledger existed carry their balance inline
+    const legacy = account as PlayerAccount & { balance?: number };
+    if (legacy.balance !== undefined) {
+      if (legacy.balance > 0) {
+        adjustBalance(account.phone, legacy.balance, "Opening balance from account record", `migration:${account.phone}`);
+      }
+      delete legacy.balance;
+      saveAccount(account);
+    }
+  }
+  
+  for (const record of await storage.loadGames(CONFIG.GAME_RECORD_RETENTION)) {
+    // Records from before the archive only kept the draw and the winners
+    gameRecords.set(record.gameId, {
+      ...record,
+      calls: record.calls ?? record.calledNumbers.map(number => ({ number, calledAt: null })),
+      cards: record.cards ?? [],
+      cardSalt: record.cardSalt ?? null,
+      config: record.config ?? null,
+      claims: record.claims ?? [],
+      prizePool: record.prizePool ?? 0,
+      endedAt: record.endedAt ?? record.revealedAt
+    });
+  }
+  
+  // Rooms come back on their tier's stakes, so games that were selling are prepared again
+  for (const session of await storage.loadSchedules()) {
+    for (const game of session.games) {
+      if (game.status === 'selling') {
+        game.status = 'scheduled';
+      }
+    }
+    gameSessions.set(session.id, session);
+  }
+  
+  const snapshots = await storage.loadRooms();
+  snapshots.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  for (const snapshot of snapshots) {
+    const room = restoreRoom(snapshot);
+    room.chatHistory = await storage.loadChat(room.id, CONFIG.CHAT_RESTORE_LIMIT);
+    
+    resumePhase(room);
+  }
+  
+  if (snapshots.length === 0) {
+    for (const options of CONFIG.DEFAULT_ROOMS) {
+      saveRoom(createRoom(options));
+    }
+  }
+  
+  logEvent(`Restored ${accounts.size} accounts, ${ledgerEntries.length} ledger entries, ${rooms.size} rooms and ${gameRecords.size} game records`);
+}
+
+// ============ WALLET LEDGER ============
+const LEDGER_ACCOUNTS = {
+  DEPOSITS: 'external:deposits',
+  WITHDRAWALS: 'external:withdrawals',
+  REVENUE: 'house:revenue',
+  ADJUSTMENTS: 'house:adjustments',
+  GUARANTEES: 'house:guarantees'
+} as const;
+
+const ledgerEntries: LedgerEntry[] = [];
+const ledgerByKey = new Map<string, LedgerEntry>();
+const ledgerBalances = new Map<string, number>();
+
+function walletAccount(phone: string): string {
+  return `wallet:${phone}`;
+}
+
+function heldAccount(phone: string): string {
+  return `held:${phone}`;
+}
+
+function poolAccount(roomId: string): string {
+  return `pool:${roomId}`;
+}
+
+function jackpotAccount(boardType: string): string {
+  return `jackpot:${boardType}`;
+}
+
+function getLedgerBalance(account: string): number {
+  return ledgerBalances.get(account) ?? 0;
+}
+
+function getBalance(phone: string): number {
+  return getLedgerBalance(walletAccount(phone));
+}
+
+function applyLedgerEntry(entry: LedgerEntry) {
+  ledgerEntries.push(entry);
+  ledgerByKey.set(entry.idempotencyKey, entry);
+  for (const posting of entry.postings) {
+    ledgerBalances.set(posting.account, getLedgerBalance(posting.account) + posting.amount);
+  }
+}
+
+function postLedgerEntry(request: LedgerRequest): { success: boolean; code?: ErrorCode; message: string; entry?: LedgerEntry; duplicate?: boolean } {
+  // Replaying a key returns the original entry instead of moving money twice
+  const existing = ledgerByKey.get(request.idempotencyKey);
+  if (existing) {
+    if (existing.type !== request.type) {
+      return { success: false, code: "DUPLICATE_REQUEST", message: `Idempotency key already used for a ${existing.type} entry` };
+    }
+    return { success: true, message: "Already recorded", entry: existing, duplicate: true };
+  }
+  
+  const postings = request.postings.filter(p => p.amount !== 0);
+  if (postings.length < 2 || postings.some(p => !Number.isInteger(p.amount))) {
+    return { success: false, code: "LEDGER_REJECTED", message: "Ledger entries need at least two whole-Birr postings" };
+  }
+  
+  if (postings.reduce((sum, p) => sum + p.amount, 0) !== 0) {
+    return { success: false, code: "LEDGER_REJECTED", message: "Ledger entry does not balance" };
+  }
+  
+  // Player money can never go below zero
+  if (postings.some(p => /^(wallet|held):/.test(p.account) && getLedgerBalance(p.account) + p.amount < 0)) {
+    return { success: false, code: "INSUFFICIENT_BALANCE", message: "Insufficient balance" };
+  }
+  
+  const entry: LedgerEntry = {
+    seq: ledgerEntries.length + 1,
+    id: generateId("txn"),
+    idempotencyKey: request.idempotencyKey,
+    type: request.type,
+    postings,
+    memo: request.memo,
+    roomId: request.roomId ?? null,
+    gameId: request.gameId ?? null,
+    createdAt: new Date()
+  };
+  
+  applyLedgerEntry(entry);
+  persist(storage.appendLedgerEntry(entry), `ledger entry ${entry.id}`);
+  
+  return { success: true, message: `${entry.type} recorded`, entry };
+}
+
+function recordDeposit(phone: string, amount: number, reference: string, memo: string) {
+  return postLedgerEntry({
+    type: 'deposit',
+    idempotencyKey: `deposit:${reference}`,
+    postings: [
+      { account: LEDGER_ACCOUNTS.DEPOSITS, amount: -amount },
+      { account: walletAccount(phone), amount }
+    ],
+    memo
+  });
+}
+
+// What a player pays per game: the per-card stake for every card they hold
+function getPlayerStake(player: Player): number {
+  return player.stake * player.cards.length;
+}
+
+// Registration pays for the first game, every later game takes the stake again under its own key
+function debitStake(room: Room, player: Player, gameId: string | null = null) {
+  const boards = player.cards.map(card => card.boardNumber).join(', ');
+  return postLedgerEntry({
+    type: 'stake',
+    idempotencyKey: gameId ? `stake:${gameId}:${player.id}` : `stake:${room.id}:${player.id}`,
+    postings: [
+      { account: walletAccount(player.phone), amount: -getPlayerStake(player) },
+      { account: poolAccount(room.id), amount: getPlayerStake(player) }
+    ],
+    memo: `Stake for board${player.cards.length > 1 ? 's' : ''} ${boards} in ${room.name}`,
+    roomId: room.id
+  });
+}
+
+function refundStake(room: Room, player: Player) {
+  return postLedgerEntry({
+    type: 'stake_refund',
+    idempotencyKey: `stake_refund:${room.id}:${player.id}`,
+    postings: [
+      { account: poolAccount(room.id), amount: -getPlayerStake(player) },
+      { account: walletAccount(player.phone), amount: getPlayerStake(player) }
+    ],
+    memo: `Stake returned from ${room.name}`,
+    roomId: room.id
+  });
+}
+
+function creditPrize(room: Room, player: Player, card: PlayerCard, stage: PrizeStage, prize: number) {
+  return postLedgerEntry({
+    type: 'prize',
+    idempotencyKey: `prize:${room.gameId}:${stage.id}:${player.id}:${card.boardNumber}`,
+    postings: [
+      { account: poolAccount(room.id), amount: -prize },
+      { account: walletAccount(player.phone), amount: prize }
+    ],
+    memo: `${stage.label} prize on board ${card.boardNumber} in ${room.name}`,
+    roomId: room.id,
+    gameId: room.gameId
+  });
+}
+
+function holdWithdrawal(phone: string, amount: number, withdrawalId: string, account: string) {
+  return postLedgerEntry({
+    type: 'withdrawal_hold',
+    idempotencyKey: `withdrawal_hold:${withdrawalId}`,
+    postings: [
+      { account: walletAccount(phone), amount: -amount },
+      { account: heldAccount(phone), amount }
+    ],
+    memo: `Withdrawal to account ${account}`
+  });
+}
+
+function settleWithdrawal(phone: string, amount: number, withdrawalId: string) {
+  return postLedgerEntry({
+    type: 'withdrawal_settle',
+    idempotencyKey: `withdrawal_settle:${withdrawalId}`,
+    postings: [
+      { account: heldAccount(phone), amount: -amount },
+      { account: LEDGER_ACCOUNTS.WITHDRAWALS, amount }
+    ],
+    memo: `Withdrawal ${withdrawalId} paid out`
+  });
+}
+
+function reverseWithdrawal(phone: string, amount: number, withdrawalId: string) {
+  return postLedgerEntry({
+    type: 'withdrawal_reverse',
+    idempotencyKey: `withdrawal_reverse:${withdrawalId}`,
+    postings: [
+      { account: heldAccount(phone), amount: -amount },
+      { account: walletAccount(phone), amount }
+    ],
+    memo: `Withdrawal ${withdrawalId} returned to wallet`
+  });
+}
+
+function adjustBalance(phone: string, amount: number, reason: string, idempotencyKey: string) {
+  return postLedgerEntry({
+    type: 'adjustment',
+    idempotencyKey,
+    postings: [
+      { account: LEDGER_ACCOUNTS.ADJUSTMENTS, amount: -amount },
+      { account: walletAccount(phone), amount }
+    ],
+    memo: reason
+  });
+}
+
+function depositFromAdmin(data: AdminMessage<'admin_deposit'>) {
+  const phone = data.phone?.toString();
+  const amount = Math.floor(Number(data.amount) || 0);
+  const reference = data.reference?.toString().trim();
+  
+  if (!validatePhone(phone)) {
+    return { success: false, code: "INVALID_FIELD", message: "Invalid phone number (must be 09xxxxxxxx)" };
+  }
+  
+  if (amount <= 0) {
+    return { success: false, code: "INVALID_FIELD", message: "Deposit amount must be positive" };
+  }
+  
+  if (!reference) {
+    return { success: false, code: "MISSING_FIELD", message: "Deposit reference is required" };
+  }
+  
+  const result = recordDeposit(phone, amount, reference, `Cash deposit (${reference})`);
+  if (result.success && !result.duplicate) {
+    saveAccount(getAccount(phone, phone));
+    logEvent(`Deposit recorded: ${phone} + ${amount} Birr (${reference})`);
+    sendBalanceUpdate(phone);
+  }
+  
+  return { success: result.success, code: result.code, message: result.message, balance: getBalance(phone) };
+}
+
+function adjustBalanceFromAdmin(data: AdminMessage<'admin_adjust_balance'>) {
+  const phone = data.phone?.toString();
+  const amount = Math.trunc(Number(data.amount) || 0);
+  const reason = data.reason?.toString().trim();
+  
+  if (!validatePhone(phone)) {
+    return { success: false, code: "INVALID_FIELD", message: "Invalid phone number (must be 09xxxxxxxx)" };
+  }
+  
+  if (amount === 0) {
+    return { success: false, code: "INVALID_FIELD", message: "Adjustment amount must not be zero" };
+  }
+  
+  if (!reason) {
+    return { success: false, code: "MISSING_FIELD", message: "A reason is required for balance adjustments" };
+  }
+  
+  const result = adjustBalance(phone, amount, reason, data.idempotencyKey?.toString() || generateId("adjust"));
+  if (result.success && !result.duplicate) {
+    saveAccount(getAccount(phone, phone));
+    logEvent(`Balance adjusted: ${phone} ${amount > 0 ? '+' : ''}${amount} Birr (${reason})`);
+    sendBalanceUpdate(phone);
+  }
+  
+  return { success: result.success, code: result.code, message: result.message, balance: getBalance(phone) };
+}
+
+function sendToPhone(phone: string, message: Record<string, unknown>) {
+  const jsonMessage = encodeMessage(message);
+  for (const room of rooms.values()) {
+    for (const player of room.players.values()) {
+      if (player.phone === phone && player.ws?.readyState === WebSocket.OPEN) {
+        player.ws.send(jsonMessage);
+      }
+    }
+  }
+}
+
+function sendBalanceUpdate(phone: string) {
+  sendToPhone(phone, {
+    type: "balance_updated",
+    balance: getBalance(phone),
+    held: getLedgerBalance(heldAccount(phone))
+  });
+}
+
+function getStatement(phone: string, limit = 100) {
+  const wallet = walletAccount(phone);
+  const held = heldAccount(phone);
+  const lines = [];
+  let balance = 0;
+  
+  for (const entry of ledgerEntries) {
+    const amount = entry.postings.filter(p => p.account === wallet).reduce((sum, p) => sum + p.amount, 0);
+    const heldAmount = entry.postings.filter(p => p.account === held).reduce((sum, p) => sum + p.amount, 0);
+    if (amount === 0 && heldAmount === 0) continue;
+    
+    balance += amount;
+    lines.push({
+      id: entry.id,
+      type: entry.type,
+      amount,
+      held: heldAmount,
+      balance,
+      memo: entry.memo,
+      roomId: entry.roomId,
+      gameId: entry.gameId,
+      createdAt: new Date(entry.createdAt).toISOString()
+    });
+  }
+  
+  return {
+    phone,
+    name: accounts.get(phone)?.name ?? null,
+    balance: getBalance(phone),
+    held: getLedgerBalance(held),
+    totalWon: accounts.get(phone)?.totalWon ?? 0,
+    entries: lines.slice(-limit)
+  };
+}
+
+function getReconciliationReport() {
+  const recomputed = new Map<string, number>();
+  const byType: Record<string, { count: number; amount: number }> = {};
+  const unbalancedEntries: string[] = [];
+  
+  for (const entry of ledgerEntries) {
+    let net = 0;
+    for (const posting of entry.postings) {
+      recomputed.set(posting.account, (recomputed.get(posting.account) ?? 0) + posting.amount);
+      net += posting.amount;
+    }
+    if (net !== 0) {
+      unbalancedEntries.push(entry.id);
+    }
+    
+    const totals = byType[entry.type] ??= { count: 0, amount: 0 };
+    totals.count++;
+    totals.amount += entry.postings.filter(p => p.amount > 0).reduce((sum, p) => sum + p.amount, 0);
+  }
+  
+  const mismatches = Array.from(new Set([...recomputed.keys(), ...ledgerBalances.keys()]))
+    .filter(account => (recomputed.get(account) ?? 0) !== getLedgerBalance(account))
+    .map(account => ({ account, ledger: recomputed.get(account) ?? 0, cached: getLedgerBalance(account) }));
+    
+  const sumAccounts = (prefix: string) => Array.from(ledgerBalances.entries())
+    .filter(([account]) => account.startsWith(prefix))
+    .reduce((sum, [, amount]) => sum + amount, 0);
+    
+  const net = Array.from(ledgerBalances.values()).reduce((sum, amount) => sum + amount, 0);
+  
+  return {
+    generatedAt: new Date().toISOString(),
+    entries: ledgerEntries.length,
+    balanced: net === 0 && unbalancedEntries.length === 0 && mismatches.length === 0,
+    // deposited + adjustments + guarantees = playerWallets + withdrawalsHeld + prizePools + jackpots + serviceFees + withdrawn
+    totals: {
+      deposited: -getLedgerBalance(LEDGER_ACCOUNTS.DEPOSITS),
+      adjustments: -getLedgerBalance(LEDGER_ACCOUNTS.ADJUSTMENTS),
+      guarantees: -getLedgerBalance(LEDGER_ACCOUNTS.GUARANTEES),
+      playerWallets: sumAccounts('wallet:'),
+      withdrawalsHeld: sumAccounts('held:'),
+      prizePools: sumAccounts('pool:'),
+      jackpots: sumAccounts('jackpot:'),
+      serviceFees: getLedgerBalance(LEDGER_ACCOUNTS.REVENUE),
+      withdrawn: getLedgerBalance(LEDGER_ACCOUNTS.WITHDRAWALS)
+    },
+    pools: Array.from(rooms.values()).map(room => ({
+      roomId: room.id,
+      name: room.name,
+      ledgerBalance: getLedgerBalance(poolAccount(room.id)),
+      prizePool: room.prizePool
+    })),
+    byType,
+    unbalancedEntries,
+    mismatches
+  };
+}
+
+// ============ WITHDRAWALS ============
+function getWithdrawalSummary(withdrawal: Withdrawal) {
+  return {
+    id: withdrawal.id,
+    phone: withdrawal.phone,
+    playerName: withdrawal.playerName,
+    amount: withdrawal.amount,
+    account: withdrawal.account,
+    status: withdrawal.status,
+    note: withdrawal.note,
+    requestedAt: new Date(withdrawal.requestedAt).toISOString(),
+    updatedAt: new Date(withdrawal.updatedAt).toISOString()
+  };
+}
+
+function listWithdrawals(status?: string) {
+  return Array.from(withdrawals.values())
+    .filter(w => !status || w.status === status)
+    .sort((a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime())
+    .map(getWithdrawalSummary);
+}
+
+function setWithdrawalStatus(withdrawal: Withdrawal, status: WithdrawalStatus, note: string | null = null) {
+  withdrawal.status = status;
+  withdrawal.note = note;
+  withdrawal.updatedAt = new Date();
+  withdrawal.history.push({ status, at: withdrawal.updatedAt, note });
+  persist(storage.saveWithdrawal(withdrawal), `withdrawal ${withdrawal.id}`);
+  
+  logEvent(`Withdrawal ${withdrawal.id} ${status}: ${withdrawal.playerName} - ${withdrawal.amount} Birr${note ? ` (${note})` : ''}`);
+  
+  sendToPhone(withdrawal.phone, {
+    type: "withdrawal_status",
+    withdrawal: getWithdrawalSummary(withdrawal),
+    balance: getBalance(withdrawal.phone)
+  });
+  
+  notifyAdmins({
+    type: "withdrawal_updated_admin",
+    withdrawal: getWithdrawalSummary(withdrawal)
+  });
+}
+
+function requestWithdrawal(player: Player, amount: number, account: string, requestId?: string) {
+  // Clients may send a requestId so a retried request is not held twice
+  const id = requestId ? `withdrawal_${player.phone}_${requestId}` : generateId("withdrawal");
+  if (withdrawals.has(id)) {
+    return { success: false, code: "DUPLICATE_REQUEST", message: "Withdrawal already submitted" };
+  }
+  
+  // Hold the funds now so they cannot be staked or withdrawn again while the request waits
+  const hold = holdWithdrawal(player.phone, amount, id, account);
+  if (!hold.success) {
+    return { success: false, code: hold.code, message: hold.message };
+  }
+  
+  const now = new Date();
+  const withdrawal: Withdrawal = {
+    id,
+    phone: player.phone,
+    playerName: player.name,
+    amount,
+    account,
+    status: 'pending',
+    note: null,
+    provider: null,
+    payoutReference: null,
+    requestedAt: now,
+    updatedAt: now,
+    history: [{ status: 'pending', at: now, note: null }]
+  };
+  
+  withdrawals.set(id, withdrawal);
+  persist(storage.saveWithdrawal(withdrawal), `withdrawal ${id}`);
+  
+  logEvent(`Withdrawal requested: ${player.name} - ${amount} Birr to account ${account}`);
+  
+  notifyAdmins({
+    type: "withdrawal_requested_admin",
+    withdrawal: getWithdrawalSummary(withdrawal)
+  });
+  
+  return { success: true, message: "Withdrawal requested", withdrawal };
+}
+
+// Hands the payout to the provider, the result arrives later on the payment callback
+async function processPayout(withdrawal: Withdrawal) {
+  try {
+    const provider = getPaymentProvider(withdrawal.provider ?? CONFIG.PAYMENTS.PROVIDER);
+    withdrawal.provider = provider.name;
+    const { reference } = await provider.sendPayout(withdrawal);
+    withdrawal.payoutReference = reference;
+    logEvent(`Payout sent for ${withdrawal.id} via ${provider.name} (${reference})`);
+    setWithdrawalStatus(withdrawal, 'approved');
+  } catch (error) {
+    failPayout(withdrawal, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function completePayout(withdrawal: Withdrawal) {
+  settleWithdrawal(withdrawal.phone, withdrawal.amount, withdrawal.id);
+  setWithdrawalStatus(withdrawal, 'paid');
+}
+
+function failPayout(withdrawal: Withdrawal, reason: string) {
+  reverseWithdrawal(withdrawal.phone, withdrawal.amount, withdrawal.id);
+  setWithdrawalStatus(withdrawal, 'failed', reason);
+  sendBalanceUpdate(withdrawal.phone);
+}
+
+function approveWithdrawal(data: AdminMessage<'admin_approve_withdrawal'>) {
+  const withdrawal = withdrawals.get(data.withdrawalId);
+  if (!withdrawal) {
+    return { success: false, code: "WITHDRAWAL_NOT_FOUND", message: "Withdrawal not found" };
+  }
+  
+  // Marked processing before the provider is called, so a second approval cannot pay twice
+  if (withdrawal.status !== 'pending') {
+    return { success: false, code: "INVALID_STATE", message: `Withdrawal is already ${withdrawal.status}` };
+  }
+  
+  setWithdrawalStatus(withdrawal, 'processing');
+  processPayout(withdrawal).catch(error => {
+    console.error(`Payout for ${withdrawal.id} failed:`, error);
+  });
+  
+  return { success: true, message: `Withdrawal ${withdrawal.id} approved` };
+}
+
+function rejectWithdrawal(data: AdminMessage<'admin_reject_withdrawal'>) {
+  const withdrawal = withdrawals.get(data.withdrawalId);
+  if (!withdrawal) {
+    return { success: false, code: "WITHDRAWAL_NOT_FOUND", message: "Withdrawal not found" };
+  }
+  
+  if (withdrawal.status !== 'pending') {
+    return { success: false, code: "INVALID_STATE", message: `Withdrawal is already ${withdrawal.status}` };
+  }
+  
+  const reason = data.reason?.toString().trim() || "Rejected by admin";
+  reverseWithdrawal(withdrawal.phone, withdrawal.amount, withdrawal.id);
+  setWithdrawalStatus(withdrawal, 'rejected', reason);
+  sendBalanceUpdate(withdrawal.phone);
+  
+  return { success: true, message: `Withdrawal ${withdrawal.id} rejected` };
+}
+
+// Settles a payout the provider never reported back on, e.g. one in flight across a restart
+function resolveWithdrawal(data: AdminMessage<'admin_resolve_withdrawal'>) {
+  const withdrawal = withdrawals.get(data.withdrawalId);
+  if (!withdrawal) {
+    return { success: false, code: "WITHDRAWAL_NOT_FOUND", message: "Withdrawal not found" };
+  }
+  
+  if (withdrawal.status !== 'processing' && withdrawal.status !== 'approved') {
+    return { success: false, code: "INVALID_STATE", message: `Withdrawal is already ${withdrawal.status}` };
+  }
+  
+  if (data.outcome === 'paid') {
+    completePayout(withdrawal);
+  } else {
+    failPayout(withdrawal, data.reason?.trim() || "Marked failed by admin");
+  }
+  
+  return { success: true, message: `Withdrawal ${withdrawal.id} marked ${data.outcome}` };
+}
+
+// ============ PAYMENTS ============
+const paymentProviders = new Map<string, PaymentProvider>();
+
+// Registrations waiting for their deposit to confirm, keyed by deposit id
+const depositWatchers = new Map<string, {
+  socket: WebSocket;
+  registration: ClientMessage<'register'> | null;
+}>();
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return toHashString(signature);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function registerPaymentProvider(provider: PaymentProvider) {
+  paymentProviders.set(provider.name, provider);
+}
+
+function getPaymentProvider(name: string): PaymentProvider {
+  const provider = paymentProviders.get(name);
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+}
+
+function createMockPaymentProvider(): PaymentProvider {
+  const settings = CONFIG.PAYMENTS.MOCK;
+  
+  // Sends a signed callback through the public webhook route after a random delay
+  function simulateCallback(kind: PaymentCallback['kind'], reference: string, amount: number) {
+    const failed = amount % 100 === 13 || Math.random() < settings.FAILURE_RATE;
+    const delay = settings.CALLBACK_DELAY * (0.5 + Math.random());
+    
+    setTimeout(async () => {
+      // Nothing awaits the timer, so a failure in the callback handling has to stop here
+      try {
+        const body = JSON.stringify({
+          kind,
+          reference,
+          amount,
+          status: failed ? 'failed' : 'succeeded',
+          reason: failed ? 'Simulated failure' : null
+        });
+        const response = await handleRequest(new Request("http://localhost/api/payments/callback/mock", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "X-Signature": await hmacSha256Hex(settings.SECRET, body) },
+          body
+        }));
+        if (!response.ok) {
+          console.error(`Mock ${kind} callback for ${reference} was rejected: ${response.status}`);
+        }
+      } catch (error) {
+        console.error(`Mock ${kind} callback for ${reference} failed:`, error);
+      }
+    }, delay);
+  }
+  
+  return {
+    name: 'mock',
+    
+    async initiateDeposit(deposit) {
+      const reference = generateId("mockdep");
+      simulateCallback('deposit', reference, deposit.amount);
+      return { reference, instructions: `Mock payment of ${deposit.amount} Birr will complete automatically` };
+    },
+    
+    async sendPayout(withdrawal) {
+      const reference = generateId("mockpay");
+      simulateCallback('payout', reference, withdrawal.amount);
+      return { reference };
+    },
+    
+    async verifyCallback(headers, body) {
+      const signature = headers.get("X-Signature") ?? "";
+      return timingSafeEqual(signature, await hmacSha256Hex(settings.SECRET, body));
+    },
+    
+    parseCallback(body) {
+      const data = JSON.parse(body);
+      if ((data.kind !== 'deposit' && data.kind !== 'payout') || typeof data.reference !== 'string') {
+        throw new Error("Malformed callback");
+      }
+      return {
+        kind: data.kind,
+        reference: data.reference,
+        status: data.status === 'succeeded' ? 'succeeded' : 'failed',
+        amount: Number(data.amount),
+        reason: data.reason ?? null
+      };
+    }
+  };
+}
+
+if (CONFIG.PAYMENTS.MOCK.ENABLED) {
+  registerPaymentProvider(createMockPaymentProvider());
+}
+
+function getDepositSummary(deposit: Deposit) {
+  return {
+    id: deposit.id,
+    phone: deposit.phone,
+    amount: deposit.amount,
+    provider: deposit.provider,
+    reference: deposit.reference,
+    status: deposit.status,
+    note: deposit.note,
+    createdAt: new Date(deposit.createdAt).toISOString()
+  };
+}
+
+async function initiateDeposit(phone: string, amount: number, socket: WebSocket, registration: ClientMessage<'register'> | null = null) {
+  // Without a provider only cashier deposits work
+  const provider = paymentProviders.get(CONFIG.PAYMENTS.PROVIDER);
+  if (!provider) {
+    return { success: false, code: "PAYMENT_UNAVAILABLE", message: "Mobile-money deposits are not available, top up at the cashier" };
+  }
+  
+  const now = new Date();
+  const deposit: Deposit = {
+    id: generateId("deposit"),
+    phone,
+    amount,
+    provider: provider.name,
+    reference: null,
+    status: 'pending',
+    note: null,
+    createdAt: now,
+    updatedAt: now
+  };
+  
+  deposits.set(deposit.id, deposit);
+  depositWatchers.set(deposit.id, { socket, registration });
+  
+  try {
+    const { reference, instructions } = await provider.initiateDeposit(deposit);
+    deposit.reference = reference;
+    persist(storage.saveDeposit(deposit), `deposit ${deposit.id}`);
+    logEvent(`Deposit initiated: ${phone} - ${amount} Birr via ${provider.name} (${reference})`);
+    return { success: true, message: "Deposit initiated", deposit, instructions };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    setDepositStatus(deposit, 'failed', reason);
+    return { success: false, code: "PAYMENT_FAILED", message: `Deposit could not be started: ${reason}`, deposit };
+  }
+}
+
+function setDepositStatus(deposit: Deposit, status: DepositStatus, note: string | null = null) {
+  deposit.status = status;
+  deposit.note = note;
+  deposit.updatedAt = new Date();
+  persist(storage.saveDeposit(deposit), `deposit ${deposit.id}`);
+  
+  logEvent(`Deposit ${deposit.id} ${status}: ${deposit.phone} - ${deposit.amount} Birr${note ? ` (${note})` : ''}`);
+  
+  const message = {
+    type: "deposit_status",
+    deposit: getDepositSummary(deposit),
+    balance: getBalance(deposit.phone)
+  };
+  const watcher = depositWatchers.get(deposit.id);
+  if (watcher?.socket.readyState === WebSocket.OPEN) {
+    watcher.socket.send(encodeMessage(message));
+  } else {
+    sendToPhone(deposit.phone, message);
+  }
+  
+  notifyAdmins({
+    type: "deposit_updated_admin",
+    deposit: getDepositSummary(deposit)
+  });
+}
+
+async function confirmDeposit(deposit: Deposit) {
+  const result = recordDeposit(deposit.phone, deposit.amount, `${deposit.provider}:${deposit.reference}`, `Deposit via ${deposit.provider} (${deposit.reference})`);
+  if (!result.success) {
+    setDepositStatus(deposit, 'failed', result.message);
+    return;
+  }
+  
+  saveAccount(getAccount(deposit.phone, deposit.phone));
+  setDepositStatus(deposit, 'confirmed');
+  sendBalanceUpdate(deposit.phone);
+  
+  // The stake is only taken now that the money has arrived
+  const watcher = depositWatchers.get(deposit.id);
+  depositWatchers.delete(deposit.id);
+  if (watcher?.registration && watcher.socket.readyState === WebSocket.OPEN) {
+    await handleRegistration(watcher.registration, watcher.socket);
+  }
+}
+
+async function handlePaymentCallback(providerName: string, request: Request): Promise<Response> {
+  const provider = paymentProviders.get(providerName);
+  if (!provider) {
+    return new Response(JSON.stringify({ error: "Unknown provider" }), { status: 404 });
+  }
+  
+  const body = await request.text();
+  if (!await provider.verifyCallback(request.headers, body)) {
+    logEvent(`Rejected ${providerName} payment callback with a bad signature`);
+    return new Response(JSON.stringify({ error: "Invalid signature" }), { status: 401 });
+  }
+  
+  let callback: PaymentCallback;
+  try {
+    callback = provider.parseCallback(body);
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Malformed callback" }), { status: 400 });
+  }
+  
+  if (callback.kind === 'deposit') {
+    const deposit = Array.from(deposits.values()).find(d => d.provider === providerName && d.reference === callback.reference);
+    if (!deposit) {
+      return new Response(JSON.stringify({ error: "Deposit not found" }), { status: 404 });
+    }
+    
+    // Providers retry callbacks, so a settled deposit just acknowledges again
+    if (deposit.status === 'pending') {
+      if (callback.status === 'failed') {
+        setDepositStatus(deposit, 'failed', callback.reason);
+        depositWatchers.delete(deposit.id);
+      } else if (callback.amount !== deposit.amount) {
+        setDepositStatus(deposit, 'failed', `Amount mismatch: expected ${deposit.amount}, provider reported ${callback.amount}`);
+        depositWatchers.delete(deposit.id);
+      } else {
+        await confirmDeposit(deposit);
+      }
+    }
+  } else {
+    const withdrawal = Array.from(withdrawals.values()).find(w => w.provider === providerName && w.payoutReference === callback.reference);
+    if (!withdrawal) {
+      return new Response(JSON.stringify({ error: "Payout not found" }), { status: 404 });
+    }
+    
+    if (withdrawal.status === 'processing' || withdrawal.status === 'approved') {
+      if (callback.status === 'succeeded') {
+        completePayout(withdrawal);
+      } else {
+        failPayout(withdrawal, callback.reason ?? "Payout failed");
+      }
+    } else if ((callback.status === 'succeeded') !== (withdrawal.status === 'paid')) {
+      // A cashier resolved this payout by hand and the provider disagrees
+      logEvent(`⚠️ Payout ${withdrawal.id} is ${withdrawal.status} but ${providerName} reported it ${callback.status}`);
+    }
+  }
+  
+  return new Response(JSON.stringify({ received: true }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ============ SESSIONS ============
+// Player tokens and OTP hashes each have their own key, so one leaking never exposes the other
+const signingKeys = { session: "", otp: "" };
+
+async function loadSigningKey(name: string, configured: string | null): Promise<string> {
+  if (configured) return configured;
+  
+  const stored = await storage.loadSecret(name);
+  if (stored) return stored;
+  
+  const key = randomToken();
+  await storage.saveSecret(name, key);
+  logEvent(`Generated a new ${name} signing key`);
+  return key;
+}
+
+// Tokens are "<base64 payload>.<hmac>"; the payload only names the session, which can be revoked server-side
+async function signSessionToken(session: PlayerSession): Promise<string> {
+  const payload = btoa(JSON.stringify({ sid: session.id, exp: session.expiresAt.getTime() }));
+  return `${payload}.${await hmacSha256Hex(signingKeys.session, payload)}`;
+}
+
+function isSessionActive(session: PlayerSession): boolean {
+  return !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+}
+
+// Issues a session for the player and binds it to the socket they registered or reconnected on
+async function issueSession(player: Player, socket: WebSocket) {
+  const now = new Date();
+  const session: PlayerSession = {
+    id: generateId("session"),
+    playerId: player.id,
+    phone: player.phone,
+    issuedAt: now,
+    expiresAt: new Date(now.getTime() + CONFIG.SESSION.TTL),
+    revokedAt: null,
+    revokedReason: null
+  };
+  
+  sessions.set(session.id, session);
+  persist(storage.saveSession(session), `session ${session.id}`);
+  socketSessions.set(socket, session);
+  
+  return { session, token: await signSessionToken(session) };
+}
+
+async function verifySessionToken(token: unknown) {
+  const [payload, signature] = typeof token === "string" ? token.split(".") : [];
+  if (!payload || !signature || !timingSafeEqual(signature, await hmacSha256Hex(signingKeys.session, payload))) {
+    return { success: false, code: "SESSION_INVALID", message: "Invalid session token" };
+  }
+  
+  let sessionId: string;
+  try {
+    sessionId = JSON.parse(atob(payload)).sid;
+  } catch {
+    return { success: false, code: "SESSION_INVALID", message: "Invalid session token" };
+  }
+  
+  const session = sessions.get(sessionId);
+  if (!session || session.revokedAt) {
+    return { success: false, code: "SESSION_REVOKED", message: "Session has been revoked" };
+  }
+  if (!isSessionActive(session)) {
+    return { success: false, code: "SESSION_EXPIRED", message: "Session expired, please register again" };
+  }
+  
+  return { success: true, message: "Session valid", session };
+}
+
+// The player a socket may act as: its session must still be live and the player still on that socket
+function getSocketPlayerId(socket: WebSocket): string | null {
+  const session = socketSessions.get(socket);
+  if (!session || !isSessionActive(session)) return null;
+  
+  const found = findPlayer(session.playerId);
+  return found && found.player.ws === socket ? session.playerId : null;
+}
+
+function revokeSessions(filter: { playerId?: string; phone?: string }, reason: string): number {
+  let revoked = 0;
+  
+  for (const session of sessions.values()) {
+    if (session.revokedAt) continue;
+    if (filter.playerId && session.playerId !== filter.playerId) continue;
+    if (filter.phone && session.phone !== filter.phone) continue;
+    
+    session.revokedAt = new Date();
+    session.revokedReason = reason;
+    persist(storage.saveSession(session), `session ${session.id}`);
+    revoked++;
+  }
+  
+  // Sockets acting on a revoked session lose their identity straight away
+  for (const [socket, session] of socketSessions.entries()) {
+    if (session.revokedAt) {
+      socketSessions.delete(socket);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(encodeMessage({ type: "session_revoked", reason: session.revokedReason }));
+      }
+    }
+  }
+  
+  if (revoked > 0) {
+    logEvent(`Revoked ${revoked} session(s) for ${filter.playerId ?? filter.phone}: ${reason}`);
+  }
+  return revoked;
+}
+
+function revokeSessionsFromAdmin(data: AdminMessage<'admin_revoke_session'>) {
+  if (!data.playerId && !(data.phone && validatePhone(data.phone))) {
+    return { success: false, code: "MISSING_FIELD", message: "A playerId or a valid phone number is required" };
+  }
+  
+  const revoked = revokeSessions(data.playerId ? { playerId: data.playerId } : { phone: data.phone }, data.reason || "revoked by admin");
+  return { success: true, message: `${revoked} session(s) revoked`, revoked };
+}
+
+// ============ PHONE VERIFICATION ============
+const smsSenders = new Map<string, SmsSender>();
+
+function registerSmsSender(sender: SmsSender) {
+  smsSenders.set(sender.name, sender);
+}
+
+function getSmsSender(): SmsSender {
+  return smsSenders.get(CONFIG.SMS.SENDER) ?? smsSenders.get('console')!;
+}
+
+// Local stand-in for an SMS gateway: prints the message and keeps a copy in the outbox file
+function createConsoleSmsSender(): SmsSender {
+  return {
+    name: 'console',
+    async send(phone, message) {
+      const line = `[${new Date().toISOString()}] SMS to ${phone}: ${message}`;
+      console.log(line);
+      try {
+        await Deno.writeTextFile(CONFIG.SMS.OUTBOX_PATH, line + "\n", { append: true });
+      } catch (error) {
+        console.error("Could not write SMS outbox:", error);
+      }
+    }
+  };
+}
+
+registerSmsSender(createConsoleSmsSender());
+
+// Bytes of 250 and up are drawn again, otherwise 0-5 would come up more often than 6-9
+function randomDigits(length: number): string {
+  let digits = '';
+  while (digits.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < 250 && digits.length < length) {
+        digits += byte % 10;
+      }
+    }
+  }
+  return digits;
+}
+
+function hashOtp(phone: string, code: string): Promise<string> {
+  return hmacSha256Hex(signingKeys.otp, `otp:${phone}:${code}`);
+}
+
+async function requestOtp(phone: string) {
+  if (!validatePhone(phone)) {
+    return { success: false, code: "INVALID_FIELD", message: "Invalid phone number (must be 09xxxxxxxx)" };
+  }
+  
+  const now = Date.now();
+  const recent = (otpRequests.get(phone) ?? []).filter(sentAt => now - sentAt.getTime() < 60 * 60 * 1000);
+  const last = recent[recent.length - 1];
+  if (last && now - last.getTime() < CONFIG.OTP.RESEND_INTERVAL) {
+    const wait = Math.ceil((CONFIG.OTP.RESEND_INTERVAL - (now - last.getTime())) / 1000);
+    return { success: false, code: "CODE_TOO_SOON", message: `Please wait ${wait} seconds before requesting another code` };
+  }
+  if (recent.length >= CONFIG.OTP.MAX_REQUESTS_PER_HOUR) {
+    return { success: false, code: "TOO_MANY_CODES", message: "Too many codes requested for this phone, try again later" };
+  }
+  
+  const code = randomDigits(CONFIG.OTP.CODE_LENGTH);
+  const challenge: OtpChallenge = {
+    phone,
+    codeHash: await hashOtp(phone, code),
+    expiresAt: new Date(now + CONFIG.OTP.TTL),
+    attempts: 0,
+    sentAt: new Date(now)
+  };
+  
+  try {
+    await getSmsSender().send(phone, `Your Bingo code is ${code}. It expires in ${Math.round(CONFIG.OTP.TTL / 60000)} minutes.`);
+  } catch (error) {
+    console.error("SMS send failed:", error);
+    return { success: false, code: "CODE_NOT_SENT", message: "Could not send the code, please try again" };
+  }
+  
+  otpChallenges.set(phone, challenge);
+  recent.push(challenge.sentAt);
+  otpRequests.set(phone, recent);
+  logEvent(`Verification code sent to ${phone}`);
+  
+  return { success: true, message: "Code sent", challenge };
+}
+
+async function verifyOtp(phone: string, code: string) {
+  const challenge = otpChallenges.get(phone);
+  if (!challenge || challenge.expiresAt.getTime() < Date.now()) {
+    otpChallenges.delete(phone);
+    return { success: false, code: "CODE_EXPIRED", message: "No valid code for this phone, request a new one" };
+  }
+  
+  if (!timingSafeEqual(challenge.codeHash, await hashOtp(phone, code))) {
+    challenge.attempts++;
+    if (challenge.attempts >= CONFIG.OTP.MAX_ATTEMPTS) {
+      otpChallenges.delete(phone);
+      logEvent(`Verification for ${phone} locked after ${challenge.attempts} wrong codes`);
+      return { success: false, code: "TOO_MANY_ATTEMPTS", message: "Too many wrong codes, request a new one" };
+    }
+    return { success: false, code: "CODE_INVALID", message: `Wrong code, ${CONFIG.OTP.MAX_ATTEMPTS - challenge.attempts} attempts left` };
+  }
+  
+  otpChallenges.delete(phone);
+  
+  // The verified phone is the key of the player's long-lived account
+  const account = getAccount(phone, phone);
+  account.verifiedAt = new Date();
+  saveAccount(account);
+  logEvent(`Phone verified: ${phone}`);
+  
+  return { success: true, message: "Phone verified", account };
+}
+
+// A socket counts as owning a phone once it verified a code for it or holds a session for it
+function getVerifiedPhone(socket: WebSocket): string | null {
+  const session = socketSessions.get(socket);
+  if (session && isSessionActive(session)) return session.phone;
+  return verifiedSockets.get(socket) ?? null;
+}
+
+// ============ ADMIN AUTH ============
+// Admin messages each role may send; owners may send all of them
+const ADMIN_ACTION_ROLES: Record<string, AdminRole[]> = {
+  admin_call_number: ['operator'],
+  admin_start_game: ['operator'],
+  admin_stop_game: ['operator'],
+  admin_reset_game: ['operator'],
+  admin_list_rooms: ['operator', 'cashier'],
+  admin_kick_player: ['operator'],
+  admin_revoke_session: ['operator', 'cashier'],
+  admin_broadcast: ['operator'],
+  admin_list_patterns: ['operator'],
+  admin_get_stats: ['operator', 'cashier'],
+  admin_deposit: ['cashier'],
+  admin_list_withdrawals: ['cashier'],
+  admin_approve_withdrawal: ['cashier'],
+  admin_reject_withdrawal: ['cashier'],
+  admin_resolve_withdrawal: ['cashier'],
+  admin_list_deposits: ['cashier'],
+  admin_get_statement: ['cashier'],
+  admin_change_password: ['operator', 'cashier'],
+  admin_list_clients: ['operator'],
+  admin_unban_client: ['operator'],
+  admin_set_lifecycle: ['operator'],
+  admin_set_call_pace: ['operator'],
+  admin_pause_game: ['operator'],
+  admin_resume_game: ['operator'],
+  admin_confirm_claim: ['operator'],
+  admin_reject_claim: ['operator'],
+  admin_load_schedule: ['operator'],
+  admin_list_schedules: ['operator', 'cashier'],
+  admin_cancel_schedule: ['operator']
+};
+
+const ADMIN_ROLES: AdminRole[] = ['operator', 'cashier', 'owner'];
+
+function isAdminActionAllowed(role: AdminRole, action: string): boolean {
+  return role === 'owner' || (ADMIN_ACTION_ROLES[action] ?? []).includes(role);
+}
+
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations: CONFIG.ADMIN_AUTH.PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHashString(bits);
+}
+
+function randomToken(): string {
+  return toHashString(crypto.getRandomValues(new Uint8Array(32)).buffer);
+}
+
+async function setAdminPassword(user: AdminUser, password: string) {
+  user.salt = randomToken();
+  user.passwordHash = await hashPassword(password, user.salt);
+  user.updatedAt = new Date();
+}
+
+async function createAdminUser(data: Omit<AdminMessage<'admin_create_user'>, 'type'>) {
+  const username = data.username?.toString().trim().toLowerCase() ?? "";
+  if (!/^[a-z0-9_.-]{3,32}$/.test(username)) {
+    return { success: false, code: "INVALID_FIELD", message: "Username must be 3-32 letters, digits, dots, dashes or underscores" };
+  }
+  if (adminUsers.has(username)) {
+    return { success: false, code: "ADMIN_EXISTS", message: "Username already exists" };
+  }
+  if (!ADMIN_ROLES.includes(data.role)) {
+    return { success: false, code: "INVALID_FIELD", message: `Role must be one of ${ADMIN_ROLES.join(', ')}` };
+  }
+  if (typeof data.password !== "string" || data.password.length < 10) {
+    return { success: false, code: "INVALID_FIELD", message: "Password must be at least 10 characters" };
+  }
+  
+  const user: AdminUser = {
+    username,
+    role: data.role,
+    passwordHash: "",
+    salt: "",
+    disabled: false,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+  await setAdminPassword(user, data.password);
+  
+  adminUsers.set(username, user);
+  persist(storage.saveAdminUser(user), `admin ${username}`);
+  logEvent(`Admin account created: ${username} (${user.role})`);
+  
+  return { success: true, message: `Admin ${username} created`, user: getAdminUserSummary(user) };
+}
+
+// Role, password and disabled changes log the account out everywhere
+async function updateAdminUser(data: Omit<AdminMessage<'admin_update_user'>, 'type'>) {
+  const user = adminUsers.get(data.username?.toString().toLowerCase() ?? "");
+  if (!user) {
+    return { success: false, code: "ADMIN_NOT_FOUND", message: "Admin not found" };
+  }
+  
+  if (data.role !== undefined && !ADMIN_ROLES.includes(data.role)) {
+    return { success: false, code: "INVALID_FIELD", message: `Role must be one of ${ADMIN_ROLES.join(', ')}` };
+  }
+  if (data.password !== undefined && (typeof data.password !== "string" || data.password.length < 10)) {
+    return { success: false, code: "INVALID_FIELD", message: "Password must be at least 10 characters" };
+  }
+  
+  const owners = Array.from(adminUsers.values()).filter(u => u.role === 'owner' && !u.disabled);
+  const demotesOwner = user.role === 'owner' && ((data.role && data.role !== 'owner') || data.disabled === true);
+  if (demotesOwner && owners.length <= 1) {
+    return { success: false, code: "LAST_OWNER", message: "Cannot remove the last owner" };
+  }
+  
+  if (data.role !== undefined) user.role = data.role;
+  if (data.disabled !== undefined) user.disabled = Boolean(data.disabled);
+  if (data.password !== undefined) await setAdminPassword(user, data.password);
+  user.updatedAt = new Date();
+  
+  persist(storage.saveAdminUser(user), `admin ${user.username}`);
+  revokeAdminSessions(user.username);
+  logEvent(`Admin account updated: ${user.username} (${user.role}${user.disabled ? ', disabled' : ''})`);
+  
+  return { success: true, message: `Admin ${user.username} updated`, user: getAdminUserSummary(user) };
+}
+
+function getAdminUserSummary(user: AdminUser) {
+  return {
+    username: user.username,
+    role: user.role,
+    disabled: user.disabled,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  };
+}
+
+// First boot: there has to be someone who can log in and create the other accounts
+async function ensureOwnerAccount() {
+  if (adminUsers.size > 0) return;
+  
+  const username = CONFIG.ADMIN_AUTH.OWNER_USERNAME;
+  if (CONFIG.ADMIN_AUTH.OWNER_PASSWORD) {
+    const result = await createAdminUser({ username, role: 'owner', password: CONFIG.ADMIN_AUTH.OWNER_PASSWORD });
+    if (result.success) return;
+    console.error(`BINGO_OWNER_PASSWORD was not used: ${result.message}`);
+  }
+  
+  // A generated password never reaches a log, only a file that just the server's user can read
+  const password = randomToken().slice(0, 16);
+  await createAdminUser({ username, role: 'owner', password });
+  const path = CONFIG.ADMIN_AUTH.OWNER_PASSWORD_FILE;
+  await Deno.remove(path).catch(() => {}); // the mode only applies when the file is created
+  await Deno.writeTextFile(path, `${password}\n`, { mode: 0o600, createNew: true });
+  logEvent(`Created admin account "${username}", its password is in ${path} - change it after logging in and delete the file`);
+}
+
+async function loginAdmin(username: string, password: string) {
+  const user = adminUsers.get(username.toLowerCase());
+  // Hash even for unknown users so response times don't reveal which usernames exist
+  const hash = await hashPassword(password, user?.salt ?? "unknown");
+  if (!user || user.disabled || !timingSafeEqual(hash, user.passwordHash)) {
+    logEvent(`Failed admin login for ${username}`);
+    return { success: false, code: "INVALID_CREDENTIALS", message: "Invalid username or password" };
+  }
+  
+  const now = new Date();
+  const session: AdminSession = {
+    id: randomToken(),
+    username: user.username,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + CONFIG.ADMIN_AUTH.SESSION_TTL),
+    revokedAt: null
+  };
+  adminSessions.set(session.id, session);
+  persist(storage.saveAdminSession(session), `admin session for ${user.username}`);
+  logEvent(`Admin logged in: ${user.username} (${user.role})`);
+  
+  return { success: true, message: "Logged in", session, user };
+}
+
+function getAdminSession(sessionId: string | null): { session: AdminSession; user: AdminUser } | null {
+  const session = sessionId ? adminSessions.get(sessionId) : undefined;
+  if (!session || session.revokedAt || new Date(session.expiresAt).getTime() < Date.now()) return null;
+  
+  const user = adminUsers.get(session.username);
+  return user && !user.disabled ? { session, user } : null;
+}
+
+function getAdminSessionFromRequest(request: Request) {
+  const cookies = request.headers.get("cookie") ?? "";
+  const match = cookies.match(new RegExp(`(?:^|;\\s*)${CONFIG.ADMIN_AUTH.COOKIE_NAME}=([a-f0-9]+)`));
+  return getAdminSession(match ? match[1] : null);
+}
+
+function revokeAdminSessions(username: string, sessionId: string | null = null) {
+  for (const session of adminSessions.values()) {
+    if (session.username !== username || session.revokedAt) continue;
+    if (sessionId && session.id !== sessionId) continue;
+    session.revokedAt = new Date();
+    persist(storage.saveAdminSession(session), `admin session for ${username}`);
+  }
+  
+  // Open admin sockets on those sessions are closed
+  for (const conn of adminConnections) {
+    if (conn.username === username && (!sessionId || conn.sessionId === sessionId)) {
+      conn.ws.close(4001, "Session revoked");
+      adminConnections.delete(conn);
+    }
+  }
+}
+
+function issueAdminTicket(session: AdminSession) {
+  const ticket = randomToken();
+  const expiresAt = Date.now() + CONFIG.ADMIN_AUTH.TICKET_TTL;
+  adminTickets.set(ticket, { sessionId: session.id, expiresAt });
+  return { ticket, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Tickets can be used once, so one leaking from a URL or log is worthless
+function redeemAdminTicket(ticket: string | null) {
+  const entry = ticket ? adminTickets.get(ticket) : undefined;
+  if (!entry) return null;
+  adminTickets.delete(ticket!);
+  return entry.expiresAt >= Date.now() ? getAdminSession(entry.sessionId) : null;
+}
+
+function adminSessionCookie(request: Request, value: string, maxAge: number): string {
+  const secure = new URL(request.url).protocol === "https:" ? "; Secure" : "";
+  return `${CONFIG.ADMIN_AUTH.COOKIE_NAME}=${value}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${Math.floor(maxAge / 1000)}${secure}`;
+}
+
+// ============ AUDIT TRAIL ============
+const auditEntries: AuditEntry[] = [];
+const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+// Read-only admin messages that are not worth an audit entry
+const UNAUDITED_ADMIN_ACTIONS = [
+  "admin_list_rooms",
+  "admin_list_patterns",
+  "admin_get_stats",
+  "admin_list_withdrawals",
+  "admin_list_deposits",
+  "admin_list_users",
+  "admin_list_clients",
+  "admin_list_schedules"
+];
+
+function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const { seq, id, actor, role, action, target, gameId, details, before, after, success, message, createdAt, prevHash } = entry;
+  return sha256Hex(JSON.stringify({
+    seq, id, actor, role, action, target, gameId, details, before, after, success, message,
+    createdAt: new Date(createdAt).toISOString(),
+    prevHash
+  }));
+}
+
+function recordAudit(record: {
+  actor: string;
+  role: AdminRole | null;
+  action: string;
+  target?: AuditTarget | null;
+  gameId?: string | null;
+  details?: Record<string, unknown>;
+  before?: unknown;
+  after?: unknown;
+  success: boolean;
+  message: string;
+}): AuditEntry {
+  const previous = auditEntries[auditEntries.length - 1];
+  const unsigned: Omit<AuditEntry, 'hash'> = {
+    seq: auditEntries.length + 1,
+    id: generateId("aud"),
+    actor: record.actor,
+    role: record.role,
+    action: record.action,
+    target: record.target ?? null,
+    gameId: record.gameId ?? null,
+    details: record.details ?? {},
+    before: record.before ?? null,
+    after: record.after ?? null,
+    success: record.success,
+    message: record.message,
+    createdAt: new Date(),
+    prevHash: previous?.hash ?? AUDIT_GENESIS_HASH
+  };
+  const entry: AuditEntry = { ...unsigned, hash: hashAuditEntry(unsigned) };
+  
+  auditEntries.push(entry);
+  persist(storage.appendAuditEntry(entry), `audit entry ${entry.seq}`);
+  return entry;
+}
+
+// Walks the chain from the start; any edited, removed or reordered entry breaks it
+function verifyAuditChain(): { valid: boolean; entries: number; brokenAt: number | null; reason: string | null } {
+  let prevHash = AUDIT_GENESIS_HASH;
+  for (const [index, entry] of auditEntries.entries()) {
+    const reason = entry.seq !== index + 1 ? "Sequence gap"
+      : entry.prevHash !== prevHash ? "Previous hash mismatch"
+      : entry.hash !== hashAuditEntry(entry) ? "Entry hash mismatch"
+      : null;
+    if (reason) {
+      return { valid: false, entries: auditEntries.length, brokenAt: entry.seq, reason };
+    }
+    prevHash = entry.hash;
+  }
+  return { valid: true, entries: auditEntries.length, brokenAt: null, reason: null };
+}
+
+// Which room, player, account, withdrawal, admin, pattern, client or schedule an admin message acts on
+function getAuditTarget(data: AnyAdminMessage, room: Room | undefined, actor: string): AuditTarget | null {
+  switch (data.type) {
+    case "admin_kick_player":
+      return { type: 'player', id: data.playerId?.toString() ?? "" };
+    case "admin_revoke_session":
+      return data.playerId
+        ? { type: 'player', id: data.playerId.toString() }
+        : { type: 'account', id: data.phone?.toString() ?? "" };
+    case "admin_deposit":
+    case "admin_adjust_balance":
+    case "admin_get_statement":
+      return { type: 'account', id: data.phone?.toString() ?? "" };
+    case "admin_approve_withdrawal":
+    case "admin_reject_withdrawal":
+    case "admin_resolve_withdrawal":
+      return { type: 'withdrawal', id: data.withdrawalId?.toString() ?? "" };
+    case "admin_create_user":
+    case "admin_update_user":
+      return { type: 'admin', id: data.username?.toString() ?? "" };
+    case "admin_change_password":
+      return { type: 'admin', id: actor };
+    case "admin_define_pattern":
+      return { type: 'pattern', id: data.name?.toString() ?? "" };
+    case "admin_unban_client":
+      return { type: 'client', id: data.ip?.toString() ?? "" };
+    case "admin_cancel_schedule":
+      return { type: 'schedule', id: data.sessionId?.toString() ?? "" };
+  }
+  return room ? { type: 'room', id: room.id } : null;
+}
+
+// Current state of a target, stored as the before and after values of an audit entry
+function getAuditSnapshot(target: AuditTarget | null): unknown {
+  if (!target) return null;
+  
+  switch (target.type) {
+    case 'room': {
+      const room = rooms.get(target.id);
+      return room ? {
+        gameId: room.gameId,
+        gameActive: room.gameActive,
+        calledNumbers: room.calledNumbers.length,
+        currentNumber: room.currentNumber,
+        players: room.players.size,
+        prizePool: room.prizePool,
+        activePatterns: getActivePatterns(room).map(p => p.name),
+        prizeRules: room.prizeRules,
+        claimRules: room.claimRules,
+        callPace: room.callPace,
+        phase: room.phase
+      } : null;
+    }
+    case 'player': {
+      const found = findPlayer(target.id);
+      return found ? {
+        name: found.player.name,
+        phone: found.player.phone,
+        roomId: found.room.id,
+        boardNumbers: found.player.cards.map(card => card.boardNumber),
+        totalStake: getPlayerStake(found.player),
+        stakeRefundable: found.player.stakeRefundable,
+        activeSessions: Array.from(sessions.values()).filter(s => s.playerId === target.id && isSessionActive(s)).length
+      } : null;
+    }
+    case 'account':
+      return accounts.has(target.id) ? {
+        balance: getBalance(target.id),
+        held: getLedgerBalance(heldAccount(target.id)),
+        activeSessions: Array.from(sessions.values()).filter(s => s.phone === target.id && isSessionActive(s)).length
+      } : null;
+    case 'withdrawal': {
+      const withdrawal = withdrawals.get(target.id);
+      return withdrawal ? getWithdrawalSummary(withdrawal) : null;
+    }
+    case 'admin': {
+      const user = adminUsers.get(target.id);
+      return user ? getAdminUserSummary(user) : null;
+    }
+    case 'pattern': {
+      const pattern = patternRegistry.get(target.id);
+      return pattern ? { label: pattern.label, masks: pattern.masks.length } : null;
+    }
+    case 'client': {
+      const client = clientLimits.get(target.id);
+      return client ? getClientSummary(client) : null;
+    }
+    case 'schedule': {
+      const session = gameSessions.get(target.id);
+      return session ? {
+        cancelled: session.cancelledAt !== null,
+        games: session.games.map(game => `${game.name}: ${game.status}`)
+      } : null;
+    }
+  }
+}
+
+// Message fields worth keeping, without the message type or any secrets
+function getAuditDetails(data: AnyAdminMessage): Record<string, unknown> {
+  const details: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data ?? {})) {
+    if (!["type", "password", "token", "ticket"].includes(key)) {
+      details[key] = value;
+    }
+  }
+  return details;
+}
+
+function getAuditGameId(target: AuditTarget | null): string | null {
+  if (target?.type === 'room') return rooms.get(target.id)?.gameId ?? null;
+  if (target?.type === 'player') return findPlayer(target.id)?.room.gameId ?? null;
+  return null;
+}
+
+function queryAudit(params: URLSearchParams) {
+  const actor = params.get("actor");
+  const action = params.get("action");
+  const targetType = params.get("targetType");
+  const targetId = params.get("targetId");
+  const gameId = params.get("gameId");
+  const from = params.get("from") ? new Date(params.get("from")!).getTime() : null;
+  const to = params.get("to") ? new Date(params.get("to")!).getTime() : null;
+  const limit = Math.min(1000, parseInt(params.get("limit") ?? "") || 100);
+  
+  const matches = auditEntries.filter(entry => {
+    const at = new Date(entry.createdAt).getTime();
+    return (!actor || entry.actor === actor) &&
+      (!action || entry.action === action || entry.action === `admin_${action}`) &&
+      (!targetType || entry.target?.type === targetType) &&
+      (!targetId || entry.target?.id === targetId) &&
+      (!gameId || entry.gameId === gameId) &&
+      (from === null || isNaN(from) || at >= from) &&
+      (to === null || isNaN(to) || at <= to);
+  });
+  
+  return {
+    total: matches.length,
+    chain: verifyAuditChain(),
+    entries: matches.slice(-limit).reverse().map(entry => ({
+      ...entry,
+      createdAt: new Date(entry.createdAt).toISOString()
+    }))
+  };
+}
+
+// ============ PRIZE RULES ============
+function getDefaultPrizeRules(boardType: string): PrizeRules {
+  return {
+    splitRule: CONFIG.PRIZE_RULES.SPLIT_RULE,
+    houseCut: CONFIG.PRIZE_RULES.HOUSE_CUT,
+    jackpotContribution: CONFIG.PRIZE_RULES.JACKPOT_CONTRIBUTION,
+    jackpotCalls: CONFIG.PRIZE_RULES.JACKPOT_CALLS[boardType] ?? 0,
+    guaranteedMinimum: CONFIG.PRIZE_RULES.GUARANTEED_MINIMUM
+  };
+}
+
+function calculatePrizePool(rules: PrizeRules, collected: number, carriedOver: number): PrizePoolBreakdown {
+  const houseCut = Math.floor(collected * rules.houseCut);
+  const jackpotContribution = Math.floor(collected * rules.jackpotContribution);
+  const pool = carriedOver + collected - houseCut - jackpotContribution;
+  const guaranteeTopUp = Math.max(0, rules.guaranteedMinimum - pool);
+  
+  return {
+    collected,
+    carriedOver,
+    houseCut,
+    jackpotContribution,
+    guaranteeTopUp,
+    payable: pool + guaranteeTopUp
+  };
+}
+
+// Money left in the room's pool by earlier games (an unfinished game rolls its prize over)
+function getCarriedOver(room: Room): number {
+  const waitingStakes = Array.from(room.players.values())
+    .filter(p => p.stakeRefundable)
+    .reduce((sum, p) => sum + getPlayerStake(p), 0);
+  return getLedgerBalance(poolAccount(room.id)) - waitingStakes;
+}
+
+// Between games prizePool shows what the next game would pay if everyone present plays
+function refreshPrizePool(room: Room) {
+  if (room.gameActive) return;
+  const collected = Array.from(room.players.values()).reduce((sum, p) => sum + getPlayerStake(p), 0);
+  room.prizePool = calculatePrizePool(getPrizeRules(room), collected, getCarriedOver(room)).payable;
+}
+
+// A scheduled game's advertised prize is guaranteed on top of the room's own rules
+function getPrizeRules(room: Room): PrizeRules {
+  const game = getSellingGame(room);
+  return game
+    ? { ...room.prizeRules, guaranteedMinimum: Math.max(room.prizeRules.guaranteedMinimum, game.prize) }
+    : room.prizeRules;
+}
+
+function getJackpot(room: Room): number {
+  return getLedgerBalance(jackpotAccount(room.boardType));
+}
+
+// Takes the house cut and jackpot share out of the game's stakes and fixes the payable pool
+function settlePrizePool(room: Room, collected: number, carriedOver: number): PrizePoolBreakdown {
+  const breakdown = calculatePrizePool(getPrizeRules(room), collected, carriedOver);
+  const transfers: [LedgerEntryType, string, string, number, string][] = [
+    ['service_fee', poolAccount(room.id), LEDGER_ACCOUNTS.REVENUE, breakdown.houseCut, `House cut for ${room.name}`],
+    ['jackpot_contribution', poolAccount(room.id), jackpotAccount(room.boardType), breakdown.jackpotContribution, `${room.boardType} jackpot contribution`],
+    ['prize_guarantee', LEDGER_ACCOUNTS.GUARANTEES, poolAccount(room.id), breakdown.guaranteeTopUp, `Guaranteed minimum prize for ${room.name}`]
+  ];
+  
+  for (const [type, from, to, amount, memo] of transfers) {
+    if (amount <= 0) continue;
+    postLedgerEntry({
+      type,
+      idempotencyKey: `${type}:${room.gameId}`,
+      postings: [
+        { account: from, amount: -amount },
+        { account: to, amount }
+      ],
+      memo,
+      roomId: room.id,
+      gameId: room.gameId
+    });
+  }
+  
+  room.prizePool = breakdown.payable;
+  return breakdown;
+}
+
+// Stages share the pool; the final stage takes whatever is left so rounding never strands money
+function calculateStagePrize(room: Room, stage: PrizeStage, isFinalStage: boolean): number {
+  const paid = room.stageWinners.reduce((sum, w) => sum + w.prize, 0);
+  return isFinalStage ? room.prizePool - paid : Math.floor(room.prizePool * stage.share);
+}
+
+// Splits an amount between co-winners; leftover Birr from rounding go to the earliest entrants
+function splitPrize(amount: number, players: Player[], rule: PrizeSplitRule): number[] {
+  const weights = players.map(p => rule === 'stake' ? p.stake : 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const shares = weights.map(w => Math.floor(amount * w / totalWeight));
+  
+  let remainder = amount - shares.reduce((sum, share) => sum + share, 0);
+  const byEntry = players
+    .map((player, index) => ({ index, joinedAt: player.joinedAt.getTime() }))
+    .sort((a, b) => a.joinedAt - b.joinedAt);
+  for (let i = 0; remainder > 0; i = (i + 1) % byEntry.length, remainder--) {
+    shares[byEntry[i].index]++;
+  }
+  
+  return shares;
+}
+
+function awardJackpot(room: Room, players: Player[]): number[] {
+  const none = players.map(() => 0);
+  if (room.calledNumbers.length > room.prizeRules.jackpotCalls) return none;
+  
+  const jackpot = getJackpot(room);
+  if (jackpot <= 0) return none;
+  
+  const shares = splitPrize(jackpot, players, room.prizeRules.splitRule);
+  const result = postLedgerEntry({
+    type: 'jackpot_win',
+    idempotencyKey: `jackpot_win:${room.gameId}`,
+    postings: [
+      { account: jackpotAccount(room.boardType), amount: -jackpot },
+      ...players.map((player, i) => ({ account: walletAccount(player.phone), amount: shares[i] }))
+    ],
+    memo: `${room.boardType} jackpot in ${room.calledNumbers.length} calls`,
+    roomId: room.id,
+    gameId: room.gameId
+  });
+  
+  return result.success ? shares : none;
+}
+
+function setPrizeRules(room: Room, data: AdminMessage<'admin_set_prize_rules'>) {
+  if (room.gameActive) {
+    return { success: false, code: "GAME_ACTIVE", message: "Cannot change prize rules while a game is active" };
+  }
+  
+  const rules = { ...room.prizeRules };
+  if (data.splitRule !== undefined) {
+    if (data.splitRule !== 'equal' && data.splitRule !== 'stake') {
+      return { success: false, code: "INVALID_RULES", message: "splitRule must be 'equal' or 'stake'" };
+    }
+    rules.splitRule = data.splitRule;
+  }
+  
+  const fractions = { houseCut: data.houseCut, jackpotContribution: data.jackpotContribution };
+  for (const [key, value] of Object.entries(fractions)) {
+    if (value === undefined) continue;
+    const fraction = Number(value);
+    if (!(fraction >= 0 && fraction < 1)) {
+      return { success: false, code: "INVALID_RULES", message: `${key} must be a fraction between 0 and 1` };
+    }
+    rules[key as 'houseCut' | 'jackpotContribution'] = fraction;
+  }
+  
+  if (rules.houseCut + rules.jackpotContribution >= 1) {
+    return { success: false, code: "INVALID_RULES", message: "House cut and jackpot contribution must leave something for the prize" };
+  }
+  
+  const amounts = { guaranteedMinimum: data.guaranteedMinimum, jackpotCalls: data.jackpotCalls };
+  for (const [key, value] of Object.entries(amounts)) {
+    if (value === undefined) continue;
+    const amount = Number(value);
+    if (!Number.isInteger(amount) || amount < 0) {
+      return { success: false, code: "INVALID_RULES", message: `${key} must be a whole number of at least 0` };
+    }
+    rules[key as 'guaranteedMinimum' | 'jackpotCalls'] = amount;
+  }
+  
+  room.prizeRules = rules;
+  refreshPrizePool(room);
+  saveRoom(room);
+  logEvent(`[${room.id}] Prize rules set: ${rules.splitRule} split, cut ${rules.houseCut}, jackpot ${rules.jackpotContribution} within ${rules.jackpotCalls} calls, minimum ${rules.guaranteedMinimum}`);
+  
+  broadcastToPlayers(room, {
+    type: "prize_rules_changed",
+    prizeRules: rules,
+    prizePool: room.prizePool,
+    jackpot: getJackpot(room)
+  });
+  
+  return { success: true, message: "Prize rules updated", prizeRules: rules };
+}
+
+// ============ ROOM MANAGEMENT ============
+// Player messages that need an authenticated session
+const PLAYER_ACTIONS = ["mark_number", "claim_win", "chat", "withdraw"];
+
+const ROOM_SCOPED_ADMIN_ACTIONS = [
+  "admin_call_number",
+  "admin_start_game",
+  "admin_stop_game",
+  "admin_reset_game",
+  "admin_close_room",
+  "admin_set_pattern",
+  "admin_set_prize_rules",
+  "admin_set_claim_rules",
+  "admin_set_lifecycle",
+  "admin_set_call_pace",
+  "admin_pause_game",
+  "admin_resume_game",
+  "admin_confirm_claim",
+  "admin_reject_claim"
+];
+
+function createRoom(options: RoomOptions): Room {
+  const tier = options.stakeTier && CONFIG.STAKE_TIERS[options.stakeTier] ? options.stakeTier : 'open';
+  const room: Room = {
+    id: options.id ?? generateId("room"),
+    gameId: null,
+    name: options.name,
+    boardType: options.boardType,
+    stakeTier: tier,
+    minStake: CONFIG.STAKE_TIERS[tier].min,
+    maxStake: CONFIG.STAKE_TIERS[tier].max,
+    createdAt: new Date(),
+    gameActive: false,
+    phase: 'lobby',
+    phaseEndsAt: null,
+    phaseTimer: null,
+    lifecycle: {
+      minPlayers: CONFIG.GAME_LIFECYCLE.MIN_PLAYERS,
+      countdown: CONFIG.GAME_LIFECYCLE.COUNTDOWN,
+      salesCutoff: CONFIG.GAME_LIFECYCLE.SALES_CUTOFF,
+      cooldown: CONFIG.GAME_LIFECYCLE.COOLDOWN
+    },
+    calledNumbers: [],
+    players: new Map(),
+    currentNumber: null,
+    currentDisplay: "",
+    startedAt: null,
+    winner: null,
+    prizePool: 0,
+    prizeRules: getDefaultPrizeRules(options.boardType),
+    claimRules: {
+      daubMode: options.daubMode ?? CONFIG.CLAIM_RULES.DAUB_MODE,
+      claimWindow: CONFIG.CLAIM_RULES.CLAIM_WINDOW,
+      falseClaimPenalties: [...CONFIG.CLAIM_RULES.FALSE_CLAIM_PENALTIES],
+      reviewWins: CONFIG.CLAIM_RULES.REVIEW_WINS
+    },
+    lastCallAt: null,
+    pendingClaims: [],
+    claimTimer: null,
+    claimReview: null,
+    totalCollected: 0,
+    totalPaidOut: 0,
+    maxPlayers: Math.max(2, Math.min(CONFIG.MAX_PLAYERS, options.maxPlayers || CONFIG.MAX_PLAYERS)),
+    callPace: {
+      interval: CONFIG.CALL_PACE.INTERVAL,
+      slowInterval: null,
+      slowFrom: 0
+    },
+    callTimer: null,
+    nextCallAt: null,
+    pausedAt: null,
+    pauseReason: null,
+    cardSalt: crypto.randomUUID(),
+    stageIndex: 0,
+    stageWinners: [],
+    activePatterns: null,
+    chatHistory: [],
+    drawOrder: []
+  };
+  
+  rooms.set(room.id, room);
+  logEvent(`Room created: ${room.name} (${room.id}, ${room.boardType}, ${room.stakeTier})`);
+  return room;
+}
+
+function createRoomFromAdmin(data: AdminMessage<'admin_create_room'>) {
+  if (rooms.size >= CONFIG.MAX_ROOMS) {
+    return { success: false, code: "ROOM_LIMIT_REACHED", message: `Room limit reached (${CONFIG.MAX_ROOMS})` };
+  }
+  
+  const name = data.name?.toString().trim();
+  if (!name || !validateName(name)) {
+    return { success: false, code: "INVALID_NAME", message: "Invalid room name (2-50 characters required)" };
+  }
+  
+  if (!(CONFIG.BOARD_TYPES as readonly string[]).includes(data.boardType)) {
+    return { success: false, code: "INVALID_FIELD", message: "Invalid board type" };
+  }
+  
+  if (data.stakeTier && !CONFIG.STAKE_TIERS[data.stakeTier]) {
+    return { success: false, code: "INVALID_FIELD", message: `Unknown stake tier: ${data.stakeTier}` };
+  }
+  
+  const room = createRoom({
+    name,
+    boardType: data.boardType,
+    stakeTier: data.stakeTier,
+    maxPlayers: data.maxPlayers,
+    daubMode: data.daubMode === 'manual' ? 'manual' : undefined
+  });
+  saveRoom(room);
+  
+  notifyAdmins({
+    type: "room_created_admin",
+    room: getRoomSummary(room)
+  });
+  
+  return { success: true, message: `Room ${room.name} created`, roomId: room.id };
+}
+
+function closeRoom(room: Room) {
+  // Stakes in play belong to the game; it has to finish or be reset before the room can go
+  if (room.gameActive) {
+    return { success: false, code: "GAME_ACTIVE", message: `Cannot close ${room.name} while a game is active` };
+  }
+  
+  stopGame(room);
+  clearPhaseTimer(room);
+  
+  for (const player of room.players.values()) {
+    if (player.stakeRefundable) {
+      refundStake(room, player);
+      room.totalCollected -= getPlayerStake(player);
+      player.stakeRefundable = false;
+    }
+  }
+  
+  // Whatever is still carried over moves to the board type's jackpot instead of being stranded
+  const leftover = getLedgerBalance(poolAccount(room.id));
+  if (leftover !== 0) {
+    postLedgerEntry({
+      type: 'jackpot_contribution',
+      idempotencyKey: `jackpot_contribution:close:${room.id}`,
+      postings: [
+        { account: poolAccount(room.id), amount: -leftover },
+        { account: jackpotAccount(room.boardType), amount: leftover }
+      ],
+      memo: `Carry-over from closed room ${room.name}`,
+      roomId: room.id
+    });
+  }
+  
+  broadcastToPlayers(room, {
+    type: "room_closed",
+    roomId: room.id
+  });
+  
+  for (const player of room.players.values()) {
+    revokeSessions({ playerId: player.id }, "room closed");
+    player.ws?.close(1000, "Room closed");
+  }
+  
+  // Scheduled games cannot be played without their room
+  const schedules = new Set<GameSession>();
+  for (const game of getScheduledGames(room, ['scheduled', 'selling'])) {
+    game.status = 'cancelled';
+    game.note = "Room closed";
+    schedules.add(findGameSession(game.id)!);
+  }
+  schedules.forEach(saveGameSession);
+  
+  rooms.delete(room.id);
+  persist(storage.deleteRoom(room.id), `room ${room.id}`);
+  logEvent(`Room closed: ${room.name} (${room.id})`);
+  
+  notifyAdmins({
+    type: "room_closed_admin",
+    roomId: room.id
+  });
+  
+  return { success: true, message: `Room ${room.name} closed` };
+}
+
+function findPlayer(playerId: string): { room: Room; player: Player } | null {
+  for (const room of rooms.values()) {
+    const player = room.players.get(playerId);
+    if (player) {
+      return { room, player };
+    }
+  }
+  return null;
+}
+
+function getServerTotals() {
+  const allRooms = Array.from(rooms.values());
+  return {
+    rooms: allRooms.length,
+    activeGames: allRooms.filter(r => r.gameActive).length,
+    totalPlayers: allRooms.reduce((sum, r) => sum + r.players.size, 0),
+    prizePool: allRooms.reduce((sum, r) => sum + r.prizePool, 0),
+    totalCollected: allRooms.reduce((sum, r) => sum + r.totalCollected, 0),
+    totalPaidOut: allRooms.reduce((sum, r) => sum + r.totalPaidOut, 0)
+  };
+}
+
+function getRoomSummary(room: Room) {
+  const nextGame = getNextScheduledGame(room);
+  return {
+    id: room.id,
+    gameId: room.gameId,
+    name: room.name,
+    boardType: room.boardType,
+    stakeTier: room.stakeTier,
+    minStake: room.minStake,
+    maxStake: room.maxStake,
+    maxPlayers: room.maxPlayers,
+    totalPlayers: room.players.size,
+    gameActive: room.gameActive,
+    phase: room.phase,
+    phaseEndsAt: room.phaseEndsAt?.toISOString() ?? null,
+    salesCloseAt: getSalesCloseAt(room)?.toISOString() ?? null,
+    lifecycle: room.lifecycle,
+    nextGame: nextGame ? getScheduledGameSummary(nextGame) : null,
+    prizePool: room.prizePool,
+    jackpot: getJackpot(room),
+    prizeRules: room.prizeRules,
+    claimRules: room.claimRules,
+    callPace: room.callPace,
+    nextCallAt: room.nextCallAt?.toISOString() ?? null,
+    pausedAt: room.pausedAt?.toISOString() ?? null,
+    pauseReason: room.pauseReason,
+    claimReview: room.claimReview ? getClaimReviewSummary(room) : null,
+    calledNumbers: room.calledNumbers.length
+  };
+}
+
+// ============ GAME CONTROL FUNCTIONS ============
+function getPrizeStages(room: Room): readonly PrizeStage[] {
+  if (room.boardType === '90ball') {
+    return CONFIG.NINETY_BALL_STAGES;
+  }
+  return [{ id: 'bingo', label: 'Bingo', lines: 0, share: 1 }];
+}
+
+function getCurrentStage(room: Room): PrizeStage {
+  const stages = getPrizeStages(room);
+  return stages[Math.min(room.stageIndex, stages.length - 1)];
+}
+
+function getStageWinnersSummary(room: Room) {
+  return room.stageWinners.map(w => ({
+    stage: w.stage.id,
+    playerId: w.player.id,
+    playerName: w.player.name,
+    prize: w.prize
+  }));
+}
+
+function startGame(room: Room) {
+  const allowed = checkPhaseAction(room, 'start');
+  if (!allowed.success) {
+    return allowed;
+  }
+  
+  // Players whose stake went into an earlier game pay again; anyone who can't is dropped
+  for (const player of room.players.values()) {
+    if (!player.stakeRefundable && getBalance(player.phone) < getPlayerStake(player)) {
+      room.players.delete(player.id);
+      logEvent(`[${room.id}] Removed ${player.name}: balance too low for the next stake`);
+      
+      player.ws?.send(encodeMessage({
+        type: "error",
+        code: "INSUFFICIENT_BALANCE",
+        message: `Your balance cannot cover the ${getPlayerStake(player)} Birr stake for the next game`
+      }));
+      
+      broadcastToPlayers(room, {
+        type: "player_left",
+        playerId: player.id,
+        totalPlayers: room.players.size
+      });
+    }
+  }
+  
+  if (room.players.size < 2) {
+    refreshPrizePool(room);
+    saveRoom(room);
+    return { success: false, code: "NOT_ENOUGH_PLAYERS", message: "Need at least 2 players to start" };
+  }
+  
+  room.gameActive = true;
+  room.gameId = generateId("game");
+  room.startedAt = new Date();
+  room.calledNumbers = [];
+  room.currentNumber = null;
+  room.currentDisplay = "";
+  room.winner = null;
+  room.stageIndex = 0;
+  room.stageWinners = [];
+  room.lastCallAt = null;
+  room.claimReview = null;
+  
+  const carriedOver = getCarriedOver(room);
+  let collected = 0;
+  
+  // Reset all player states
+  for (const player of room.players.values()) {
+    player.cards.forEach(card => {
+      card.markedNumbers = [];
+      card.voided = false;
+    });
+    player.isWinner = false;
+    player.falseClaims = 0;
+    player.lockedOut = false;
+    if (!player.stakeRefundable) {
+      debitStake(room, player, room.gameId);
+      room.totalCollected += getPlayerStake(player);
+    }
+    player.stakeRefundable = false;
+    collected += getPlayerStake(player);
+    
+    const account = getAccount(player.phone, player.name);
+    account.gamesPlayed++;
+    saveAccount(account);
+  }
+  
+  const prizes = settlePrizePool(room, collected, carriedOver);
+  
+  // Bets are closed: shuffle the bag and commit to the draw order
+  const draw = prepareDraw(room);
+  saveRoom(room);
+  
+  // Start auto-calling
+  startAutoCalling(room);
+  setPhase(room, 'calling');
+  markScheduledGame(room, 'selling', 'running');
+  
+  const totalCards = Array.from(room.players.values()).reduce((sum, p) => sum + p.cards.length, 0);
+  logEvent(`[${room.id}] Game started with ${room.players.size} players on ${totalCards} cards`);
+  
+  // Broadcast to all
+  broadcastToPlayers(room, {
+    type: "game_started",
+    roomId: room.id,
+    gameId: room.gameId,
+    drawCommitment: draw.commitment,
+    startedAt: room.startedAt.toISOString(),
+    totalPlayers: room.players.size,
+    prizePool: room.prizePool,
+    jackpot: getJackpot(room),
+    jackpotCalls: room.prizeRules.jackpotCalls,
+    daubMode: room.claimRules.daubMode,
+    claimWindow: room.claimRules.claimWindow,
+    nextCallAt: room.nextCallAt?.toISOString() ?? null,
+    stage: getCurrentStage(room).id,
+    stages: getPrizeStages(room).map(stage => ({ id: stage.id, label: stage.label, share: stage.share })),
+    patterns: getPatternSummary(room)
+  });
+  
+  notifyAdmins({
+    type: "game_started_admin",
+    roomId: room.id,
+    gameId: room.gameId,
+    drawCommitment: draw.commitment,
+    startedAt: room.startedAt.toISOString(),
+    totalPlayers: room.players.size,
+    prizePool: room.prizePool,
+    prizeBreakdown: prizes,
+    players: Array.from(room.players.values()).map(p => ({
+      id: p.id,
+      name: p.name,
+      boardType: p.boardType,
+      cards: p.cards.length,
+      stake: p.stake
+    }))
+  });
+  
+  return { success: true, message: "Game started successfully" };
+}
+
+function stopGame(room: Room) {
+  if (!room.gameActive) {
+    return { success: false, code: "GAME_NOT_ACTIVE", message: "Game not active" };
+  }
+  
+  endGame(room);
+  logEvent(`[${room.id}] Game stopped`);
+  
+  broadcastToPlayers(room, {
+    type: "game_stopped",
+    roomId: room.id
+  });
+  
+  notifyAdmins({
+    type: "game_stopped_admin",
+    roomId: room.id
+  });
+  
+  return { success: true, message: "Game stopped" };
+}
+
+// Closes the game, won or not, and starts the cooldown before the next lobby
+function endGame(room: Room) {
+  room.gameActive = false;
+  stopAutoCalling(room);
+  clearPendingClaims(room);
+  room.claimReview = null;
+  revealDraw(room);
+  if (markScheduledGame(room, 'running', 'finished')) {
+    releaseRoom(room);
+  }
+  refreshPrizePool(room);
+  setPhase(room, 'cooldown', new Date(Date.now() + room.lifecycle.cooldown));
+}
+
+function resetGame(room: Room) {
+  stopGame(room);
+  
+  room.calledNumbers = [];
+  room.currentNumber = null;
+  room.currentDisplay = "";
+  room.startedAt = null;
+  room.winner = null;
+  room.stageIndex = 0;
+  room.stageWinners = [];
+  room.lastCallAt = null;
+  // Every game deals fresh grids, so one game's cards say nothing about the next
+  room.cardSalt = crypto.randomUUID();
+  
+  // Reset player game state but keep registration
+  for (const player of room.players.values()) {
+    player.cards.forEach(card => {
+      card.markedNumbers = [];
+      card.voided = false;
+    });
+    player.isWinner = false;
+    player.falseClaims = 0;
+    player.lockedOut = false;
+  }
+  
+  refreshPrizePool(room);
+  logEvent(`[${room.id}] Game reset`);
+  
+  // Players who stay on get their boards again with the new numbers
+  for (const player of room.players.values()) {
+    if (player.ws?.readyState === WebSocket.OPEN) {
+      player.ws.send(encodeMessage({
+        type: "game_reset",
+        roomId: room.id,
+        cards: getCardSummaries(room, player)
+      }));
+    }
+  }
+  
+  notifyAdmins({
+    type: "game_reset_admin",
+    roomId: room.id
+  });
+  
+  // Sales open again straight away
+  setPhase(room, 'lobby');
+  checkCountdown(room);
+  
+  return { success: true, message: "Game reset" };
+}
+
+function callNumber(room: Room) {
+  if (!room.gameActive) {
+    return { success: false, code: "GAME_NOT_ACTIVE", message: "Game not active" };
+  }
+  
+  if (room.winner) {
+    return { success: false, code: "GAME_OVER", message: "Game already has a winner" };
+  }
+  
+  if (room.pendingClaims.length > 0) {
+    return { success: false, code: "CLAIMS_PENDING", message: "Waiting for the claim window to close" };
+  }
+  
+  const allowed = checkPhaseAction(room, 'call');
+  if (!allowed.success) {
+    return allowed;
+  }
+  
+  // Take the next ball from the pre-shuffled bag
+  const newNumber = room.drawOrder[room.calledNumbers.length];
+  
+  if (newNumber === undefined) {
+    stopGame(room);
+    return { success: false, code: "NO_NUMBERS_LEFT", message: "All numbers have been called" };
+  }
+  
+  room.calledNumbers.push(newNumber);
+  room.currentNumber = newNumber;
+  room.lastCallAt = new Date();
+  gameRecords.get(room.gameId!)?.calls.push({ number: newNumber, calledAt: room.lastCallAt });
+  
+  // Get display format
+  const display = getNumberDisplay(newNumber, room.boardType);
+  
+  room.currentDisplay = display;
+  
+  logEvent(`[${room.id}] Number called: ${display}`);
+  
+  // Check for winners
+  checkWinners(room, newNumber);
+  saveRoom(room);
+  
+  // Manual calls restart the clock too, so balls never come closer together than the pace
+  if (room.phase === 'calling') {
+    startAutoCalling(room);
+  }
+  
+  // Broadcast to players
+  broadcastToPlayers(room, {
+    type: "number_called",
+    number: newNumber,
+    display: display,
+    totalCalled: room.calledNumbers.length,
+    claimWindow: room.claimRules.daubMode === 'manual' ? room.claimRules.claimWindow : null,
+    nextCallAt: room.nextCallAt?.toISOString() ?? null
+  });
+  
+  // Notify admins
+  notifyAdmins({
+    type: "number_called_admin",
+    roomId: room.id,
+    number: newNumber,
+    display: display,
+    totalCalled: room.calledNumbers.length,
+    nextCallAt: room.nextCallAt?.toISOString() ?? null
+  });
+  
+  return { success: true, number: newNumber, display: display };
+}
+
+// The gap before the next ball; games slow down near the end once the slow interval kicks in
+function getCallInterval(room: Room): number {
+  const pace = room.callPace;
+  return pace.slowInterval !== null && room.calledNumbers.length >= pace.slowFrom ? pace.slowInterval : pace.interval;
+}
+
+function startAutoCalling(room: Room, delay = getCallInterval(room)) {
+  stopAutoCalling(room);
+  
+  room.nextCallAt = new Date(Date.now() + delay);
+  room.callTimer = setTimeout(() => {
+    room.callTimer = null;
+    room.nextCallAt = null;
+    // Verification restarts the clock once the claims settle
+    if (room.phase === 'calling') {
+      callNumber(room);
+    }
+  }, delay) as unknown as number;
+}
+
+function stopAutoCalling(room: Room) {
+  if (room.callTimer) {
+    clearTimeout(room.callTimer);
+    room.callTimer = null;
+  }
+  room.nextCallAt = null;
+}
+
+function setCallPace(room: Room, data: AdminMessage<'admin_set_call_pace'>) {
+  const pace = { ...room.callPace };
+  const { MIN_INTERVAL, MAX_INTERVAL } = CONFIG.CALL_PACE;
+  
+  if (data.interval !== undefined) {
+    const interval = data.interval;
+    if (!Number.isInteger(interval) || interval < MIN_INTERVAL || interval > MAX_INTERVAL) {
+      return { success: false, code: "INVALID_RULES", message: `interval must be between ${MIN_INTERVAL} and ${MAX_INTERVAL} ms` };
+    }
+    pace.interval = interval;
+  }
+  
+  if (data.slowInterval !== undefined) {
+    const slowInterval = data.slowInterval;
+    if (slowInterval !== null && (!Number.isInteger(slowInterval) || slowInterval < MIN_INTERVAL || slowInterval > MAX_INTERVAL)) {
+      return { success: false, code: "INVALID_RULES", message: `slowInterval must be null or between ${MIN_INTERVAL} and ${MAX_INTERVAL} ms` };
+    }
+    pace.slowInterval = slowInterval;
+  }
+  
+  if (data.slowFrom !== undefined) {
+    const slowFrom = data.slowFrom;
+    const balls = getBallCount(room.boardType);
+    if (!Number.isInteger(slowFrom) || slowFrom < 0 || slowFrom >= balls) {
+      return { success: false, code: "INVALID_RULES", message: `slowFrom must be between 0 and ${balls - 1} calls` };
+    }
+    pace.slowFrom = slowFrom;
+  }
+  
+  // A claim window that outlasts the gap between balls could never settle before the next one
+  if (Math.min(pace.interval, pace.slowInterval ?? pace.interval) <= room.claimRules.claimWindow) {
+    return { success: false, code: "INVALID_RULES", message: `Calls must be more than the ${room.claimRules.claimWindow} ms claim window apart` };
+  }
+  
+  const previousInterval = getCallInterval(room);
+  room.callPace = pace;
+  saveRoom(room);
+  logEvent(`[${room.id}] Call pace set: every ${pace.interval}ms${pace.slowInterval !== null ? `, every ${pace.slowInterval}ms from call ${pace.slowFrom}` : ''}`);
+  
+  // A game in progress moves its next ball by however much the gap changed
+  if (room.callTimer && room.nextCallAt) {
+    const remaining = room.nextCallAt.getTime() - Date.now();
+    startAutoCalling(room, Math.max(remaining + getCallInterval(room) - previousInterval, 0));
+  }
+  
+  broadcastToPlayers(room, {
+    type: "call_pace_changed",
+    callPace: pace,
+    nextCallAt: room.nextCallAt?.toISOString() ?? null
+  });
+  
+  return { success: true, message: "Call pace updated", callPace: pace, nextCallAt: room.nextCallAt?.toISOString() ?? null };
+}
+
+function checkWinners(room: Room, calledNumber: number) {
+  // In manual mode players daub their own cards and have to claim
+  if (room.claimRules.daubMode === 'manual') return;
+  
+  // Update the marks on every card; anyone who joined mid-game waits for the next one
+  for (const player of room.players.values()) {
+    if (player.stakeRefundable) continue;
+    
+    for (const card of player.cards) {
+      const boardNumbers = generateBoardNumbers(player.boardType, card.boardNumber, room.cardSalt);
+      
+      // Check if called number is on this card
+      if (boardNumbers.includes(calledNumber) && !card.markedNumbers.includes(calledNumber)) {
+        card.markedNumbers.push(calledNumber);
+      }
+    }
+  }
+  
+  checkStageWinners(room);
+}
+
+// Every card that completes the current stage on this ball shares it. One ball can finish
+// more than one stage, so once a stage is paid the cards are checked again against the next.
+function checkStageWinners(room: Room) {
+  if (room.claimRules.daubMode === 'manual') return;
+  
+  while (room.gameActive && !room.winner && !room.claimReview) {
+    const stageIndex = room.stageIndex;
+    const stageWinners: StageClaim[] = [];
+    
+    for (const player of room.players.values()) {
+      if (player.stakeRefundable || player.lockedOut) continue;
+      
+      // A card whose win was rejected stays void for the rest of the game
+      for (const card of player.cards.filter(card => !card.voided)) {
+        const boardNumbers = generateBoardNumbers(player.boardType, card.boardNumber, room.cardSalt);
+        const pattern = checkWinningPattern(room, card.markedNumbers, boardNumbers);
+        if (pattern) {
+          stageWinners.push({ player, card, pattern });
+        }
+      }
+    }
+    
+    if (stageWinners.length === 0) return;
+    declareWinners(room, stageWinners);
+    
+    // Held for review, or the stage did not move on: nothing more to pay on this ball
+    if (room.stageIndex === stageIndex) return;
+  }
+}
+
+function checkWinningPattern(room: Room, markedNumbers: number[], boardNumbers: number[]): PatternMatch | null {
+  const markedSet = new Set(markedNumbers);
+  
+  // Different patterns for different board types
+  switch (room.boardType) {
+    case '75ball':
+    case '50ball':
+    case 'pattern':
+      return matchPattern(markedSet, boardNumbers, getActivePatterns(room), true);
+    case 'coverall':
+      // Coverall requires all numbers, including the center
+      return matchPattern(markedSet, boardNumbers, getActivePatterns(room), false);
+    case '90ball': {
+      const stage = getCurrentStage(room);
+      return check90BallPattern(markedSet, boardNumbers, stage.lines)
+        ? { name: stage.id, label: stage.label }
+        : null;
+    }
+    case '30ball':
+      return check30BallPattern(markedSet) ? { name: 'full_house', label: 'Full House' } : null;
+    default:
+      return null;
+  }
+}
+
+function check90BallPattern(markedSet: Set<number>, boardNumbers: number[], linesRequired: number): boolean {
+  // 3x9 ticket, a line is a row whose 5 numbers are all marked
+  let completedLines = 0;
+  for (let row = 0; row < 3; row++) {
+    const rowNumbers = boardNumbers.slice(row * 9, row * 9 + 9).filter(num => num > 0);
+    if (rowNumbers.every(num => markedSet.has(num))) {
+      completedLines++;
+    }
+  }
+  
+  return completedLines >= linesRequired;
+}
+
+function check30BallPattern(markedSet: Set<number>): boolean {
+  // 30-ball is usually full house only (all 9 numbers)
+  return markedSet.size >= 9;
+}
+
+// Wins pay straight away unless the room holds them for an admin to check first
+function declareWinners(room: Room, winners: StageClaim[]) {
+  if (room.winner) return; // Already have a winner
+  
+  if (room.claimRules.reviewWins) {
+    holdForReview(room, winners);
+  } else {
+    payWinners(room, winners);
+  }
+}
+
+function payWinners(room: Room, winners: StageClaim[]) {
+  if (room.winner) return;
+  
+  const stages = getPrizeStages(room);
+  const stage = getCurrentStage(room);
+  const isFinalStage = room.stageIndex >= stages.length - 1;
+  const players = winners.map(w => w.player);
+  
+  for (const player of players) {
+    player.isWinner = true;
+  }
+  if (isFinalStage) {
+    room.winner = players[0];
+  } else {
+    room.stageIndex++;
+  }
+  
+  const stagePrize = calculateStagePrize(room, stage, isFinalStage);
+  const prizes = splitPrize(stagePrize, players, room.prizeRules.splitRule);
+  const jackpots = isFinalStage ? awardJackpot(room, players) : players.map(() => 0);
+  const wonAt = new Date();
+  
+  const results = winners.map(({ player, card, pattern }, i) => {
+    const prize = prizes[i];
+    const jackpot = jackpots[i];
+    creditPrize(room, player, card, stage, prize);
+    
+    const account = getAccount(player.phone, player.name);
+    account.totalWon += prize + jackpot;
+    saveAccount(account);
+    
+    room.totalPaidOut += prize + jackpot;
+    room.stageWinners.push({ stage, player, prize, wonAt });
+    gameRecords.get(room.gameId!)?.winners.push({
+      playerId: player.id,
+      playerName: player.name,
+      phone: player.phone,
+      boardNumber: card.boardNumber,
+      stage: stage.id,
+      pattern: pattern.name,
+      prize,
+      jackpot,
+      wonAt
+    });
+    
+    logEvent(`[${room.id}] 🎉 WINNER (${pattern.label}): ${player.name} won ${prize} Birr on board ${card.boardNumber}${jackpot ? ` and ${jackpot} Birr of the jackpot` : ''}!`);
+    
+    return {
+      playerId: player.id,
+      playerName: player.name,
+      boardNumber: card.boardNumber,
+      prize,
+      jackpot,
+      pattern: pattern.name,
+      patternLabel: pattern.label
+    };
+  });
+  
+  // Broadcast winner; the top-level fields describe the first winner for older clients
+  const [first] = results;
+  broadcastToPlayers(room, {
+    type: "winner",
+    playerId: first.playerId,
+    playerName: first.playerName,
+    prize: first.prize,
+    jackpot: first.jackpot,
+    pattern: first.pattern,
+    patternLabel: first.patternLabel,
+    winners: results,
+    stagePrize: stagePrize,
+    splitRule: room.prizeRules.splitRule,
+    stage: stage.id,
+    stageLabel: stage.label,
+    nextStage: isFinalStage ? null : getCurrentStage(room).id,
+    timestamp: wonAt.toISOString()
+  });
+  
+  // Notify admins
+  notifyAdmins({
+    type: "winner_admin",
+    roomId: room.id,
+    player: {
+      id: players[0].id,
+      name: players[0].name,
+      phone: players[0].phone,
+      boardType: players[0].boardType,
+      boardNumber: first.boardNumber,
+      cards: players[0].cards.length,
+      stake: players[0].stake
+    },
+    prize: first.prize,
+    winners: results.map((result, i) => ({ ...result, phone: players[i].phone, stake: players[i].stake })),
+    stagePrize: stagePrize,
+    pattern: first.pattern,
+    stage: stage.id,
+    calledNumbers: room.calledNumbers.length
+  });
+  
+  // Keep calling until the final stage has been won
+  if (isFinalStage) {
+    stopAutoCalling(room);
+    revealDraw(room);
+    setPhase(room, 'paid', new Date(wonAt.getTime() + CONFIG.GAME_LIFECYCLE.PAID_DISPLAY));
+  } else {
+    saveRoom(room);
+  }
+}
+
+// ============ GAME PHASES ============
+// What players and admins may do in each phase; reconnecting, chat and state requests are always fine
+const PHASE_ACTIONS: Record<GamePhase, readonly PhaseAction[]> = {
+  lobby: ['register', 'start'],
+  countdown: ['register', 'start'],
+  calling: ['mark', 'claim', 'call'],
+  verifying: ['mark', 'claim'], // later claims on the same ball can still share the stage
+  reviewing: ['mark'],
+  paused: ['mark', 'claim'], // only the calling stops
+  paid: [],
+  cooldown: []
+};
+
+const PHASE_ACTION_LABELS: Record<PhaseAction, string> = {
+  register: "Buying cards",
+  mark: "Marking numbers",
+  claim: "Claiming",
+  start: "Starting a game",
+  call: "Calling numbers"
+};
+
+function getSalesCloseAt(room: Room): Date | null {
+  if (room.phase !== 'countdown' || !room.phaseEndsAt) return null;
+  return new Date(room.phaseEndsAt.getTime() - room.lifecycle.salesCutoff);
+}
+
+function checkPhaseAction(room: Room, action: PhaseAction) {
+  if (!PHASE_ACTIONS[room.phase].includes(action)) {
+    return { success: false, code: "WRONG_PHASE", message: `${PHASE_ACTION_LABELS[action]} is not allowed during the ${room.phase} phase` };
+  }
+  
+  const salesCloseAt = getSalesCloseAt(room);
+  if (action === 'register' && salesCloseAt && Date.now() >= salesCloseAt.getTime()) {
+    return { success: false, code: "SALES_CLOSED", message: "Ticket sales for this game have closed, wait for the next one" };
+  }
+  
+  return { success: true, message: "Allowed" };
+}
+
+function clearPhaseTimer(room: Room) {
+  if (room.phaseTimer) {
+    clearTimeout(room.phaseTimer);
+    room.phaseTimer = null;
+  }
+}
+
+// Moves the room into a phase and tells everyone when it ends; timed phases advance on their own
+function setPhase(room: Room, phase: GamePhase, endsAt: Date | null = null) {
+  clearPhaseTimer(room);
+  const previous = room.phase;
+  room.phase = phase;
+  room.phaseEndsAt = endsAt;
+  if (phase !== 'paused') {
+    room.pausedAt = null;
+    room.pauseReason = null;
+  }
+  
+  if (endsAt && phase !== 'verifying') {
+    // Verification ends when the claim timer settles the claims
+    room.phaseTimer = setTimeout(() => advancePhase(room), Math.max(endsAt.getTime() - Date.now(), 0)) as unknown as number;
+  }
+  saveRoom(room);
+  
+  logEvent(`[${room.id}] Phase: ${previous} → ${phase}${endsAt ? ` until ${endsAt.toISOString()}` : ''}`);
+  
+  const change = {
+    roomId: room.id,
+    gameId: room.gameId,
+    phase,
+    previousPhase: previous,
+    changedAt: new Date().toISOString(),
+    endsAt: endsAt?.toISOString() ?? null,
+    salesCloseAt: getSalesCloseAt(room)?.toISOString() ?? null,
+    minPlayers: room.lifecycle.minPlayers,
+    totalPlayers: room.players.size
+  };
+  
+  broadcastToPlayers(room, { type: "phase_changed", ...change });
+  notifyAdmins({ type: "phase_changed_admin", ...change });
+}
+
+function advancePhase(room: Room) {
+  room.phaseTimer = null;
+  
+  switch (room.phase) {
+    case 'countdown': {
+      const result = startGame(room);
+      if (!result.success) {
+        logEvent(`[${room.id}] Countdown ended without a game: ${result.message}`);
+        if (markScheduledGame(room, 'selling', 'skipped', result.message)) {
+          releaseRoom(room);
+        }
+        setPhase(room, 'lobby');
+        checkCountdown(room);
+      }
+      break;
+    }
+    
+    case 'paid':
+      endGame(room);
+      break;
+      
+    case 'cooldown':
+      resetGame(room);
+      break;
+  }
+}
+
+// Starts the countdown once enough players are in the lobby, and calls it off if they leave
+function checkCountdown(room: Room) {
+  // A scheduled game starts on time however many players there are
+  if (getSellingGame(room)) return;
+  
+  if (room.phase === 'lobby' && room.players.size >= room.lifecycle.minPlayers) {
+    setPhase(room, 'countdown', new Date(Date.now() + room.lifecycle.countdown));
+  } else if (room.phase === 'countdown' && room.players.size < room.lifecycle.minPlayers) {
+    logEvent(`[${room.id}] Countdown called off: ${room.players.size} of ${room.lifecycle.minPlayers} players`);
+    setPhase(room, 'lobby');
+  }
+}
+
+// Puts a restored room back on its feet; timers and pending claims do not survive a restart
+function resumePhase(room: Room) {
+  switch (room.phase) {
+    case 'calling':
+    case 'verifying':
+      room.phase = 'calling';
+      startAutoCalling(room);
+      logEvent(`[${room.id}] Resumed game ${room.gameId} at ${room.calledNumbers.length} numbers called`);
+      break;
+      
+    case 'paused':
+      logEvent(`[${room.id}] Game ${room.gameId} is still paused at ${room.calledNumbers.length} numbers called`);
+      break;
+      
+    case 'reviewing':
+      if (room.claimReview) {
+        logEvent(`[${room.id}] ${room.claimReview.claims.length} claim(s) still waiting for review`);
+      } else {
+        setPhase(room, 'calling');
+        startAutoCalling(room);
+      }
+      break;
+      
+    case 'paid':
+    case 'cooldown':
+      endGame(room);
+      break;
+      
+    case 'countdown':
+      room.phase = 'lobby';
+      checkCountdown(room);
+      break;
+      
+    case 'lobby':
+      checkCountdown(room);
+      break;
+  }
+}
+
+// Freezes calling without ending the game, e.g. while a claim is disputed
+function pauseGame(room: Room, reason?: string) {
+  if (room.phase !== 'calling' && room.phase !== 'verifying') {
+    return { success: false, code: "WRONG_PHASE", message: `Only a game that is calling numbers can be paused, the room is in the ${room.phase} phase` };
+  }
+  
+  stopAutoCalling(room);
+  setPhase(room, 'paused');
+  room.pausedAt = new Date();
+  room.pauseReason = reason?.trim() || null;
+  saveRoom(room);
+  logEvent(`[${room.id}] Game paused at ${room.calledNumbers.length} numbers called${room.pauseReason ? `: ${room.pauseReason}` : ''}`);
+  
+  broadcastToPlayers(room, {
+    type: "game_paused",
+    roomId: room.id,
+    reason: room.pauseReason,
+    pausedAt: room.pausedAt.toISOString()
+  });
+  
+  return { success: true, message: "Game paused", pausedAt: room.pausedAt.toISOString() };
+}
+
+function resumeGame(room: Room) {
+  if (room.phase !== 'paused') {
+    return { success: false, code: "WRONG_PHASE", message: "Game is not paused" };
+  }
+  
+  const pausedFor = room.pausedAt ? Date.now() - room.pausedAt.getTime() : 0;
+  setPhase(room, 'calling');
+  // Players get a full interval to settle back in before the next ball
+  startAutoCalling(room);
+  logEvent(`[${room.id}] Game resumed after ${Math.round(pausedFor / 1000)}s`);
+  
+  broadcastToPlayers(room, {
+    type: "game_resumed",
+    roomId: room.id,
+    pausedFor,
+    nextCallAt: room.nextCallAt!.toISOString()
+  });
+  
+  return { success: true, message: "Game resumed", nextCallAt: room.nextCallAt!.toISOString() };
+}
+
+function setLifecycleRules(room: Room, data: AdminMessage<'admin_set_lifecycle'>) {
+  if (room.phase !== 'lobby' && room.phase !== 'cooldown') {
+    return { success: false, code: "WRONG_PHASE", message: "Lifecycle rules can only change in the lobby or during the cooldown" };
+  }
+  
+  const rules = { ...room.lifecycle };
+  const limits: Record<keyof LifecycleRules, [number, number]> = {
+    minPlayers: [2, room.maxPlayers],
+    countdown: [5000, 10 * 60 * 1000],
+    salesCutoff: [0, 10 * 60 * 1000],
+    cooldown: [0, 10 * 60 * 1000]
+  };
+  for (const [key, [min, max]] of Object.entries(limits) as [keyof LifecycleRules, [number, number]][]) {
+    const value = data[key];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return { success: false, code: "INVALID_RULES", message: `${key} must be a whole number between ${min} and ${max}` };
+    }
+    rules[key] = value;
+  }
   
-  // Broadcast to players
-  broadcastToPlayers({
-    type: "number_called",
-    number: newNumber,
-    display: display,
-    totalCalled: gameState.calledNumbers.length
+  if (rules.salesCutoff >= rules.countdown) {
+    return { success: false, code: "INVALID_RULES", message: "salesCutoff must be shorter than the countdown" };
+  }
+  
+  room.lifecycle = rules;
+  saveRoom(room);
+  logEvent(`[${room.id}] Lifecycle set: ${rules.minPlayers} players, ${rules.countdown}ms countdown, sales close ${rules.salesCutoff}ms before, ${rules.cooldown}ms cooldown`);
+  
+  checkCountdown(room);
+  return { success: true, message: "Lifecycle rules updated", lifecycle: rules };
+}
+
+// ============ SCHEDULER ============
+// Scheduled games run in the room's normal phases: the game takes its room over SALES_OPEN before
+// it starts, and the countdown is timed to end at the scheduled time instead of waiting for players.
+const SCHEDULE_RECURRENCE: Record<ScheduleRecurrence, number> = {
+  none: 0,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+const FINAL_SCHEDULE_STATUSES: ScheduledGameStatus[] = ['finished', 'skipped', 'missed', 'cancelled'];
+
+function getScheduledGames(room: Room, statuses: ScheduledGameStatus[]): ScheduledGame[] {
+  return Array.from(gameSessions.values())
+    .filter(session => !session.cancelledAt)
+    .flatMap(session => session.games)
+    .filter(game => game.roomId === room.id && statuses.includes(game.status))
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+function getNextScheduledGame(room: Room): ScheduledGame | null {
+  return getScheduledGames(room, ['selling', 'scheduled'])[0] ?? null;
+}
+
+// The scheduled game that currently owns the room, if any
+function getSellingGame(room: Room): ScheduledGame | null {
+  return getScheduledGames(room, ['selling'])[0] ?? null;
+}
+
+function findGameSession(gameId: string): GameSession | undefined {
+  return Array.from(gameSessions.values()).find(session => session.games.some(game => game.id === gameId));
+}
+
+function getScheduledGameSummary(game: ScheduledGame) {
+  const session = findGameSession(game.id);
+  return {
+    id: game.id,
+    sessionId: session?.id ?? null,
+    sessionName: session?.name ?? null,
+    position: game.position,
+    name: game.name,
+    roomId: game.roomId,
+    roomName: rooms.get(game.roomId)?.name ?? null,
+    boardType: game.boardType,
+    startsAt: game.startsAt.toISOString(),
+    patterns: game.patterns,
+    stake: game.stake,
+    prize: game.prize,
+    status: game.status,
+    gameId: game.gameId,
+    note: game.note
+  };
+}
+
+function getSessionSummary(session: GameSession) {
+  return {
+    id: session.id,
+    name: session.name,
+    recurrence: session.recurrence,
+    createdBy: session.createdBy,
+    createdAt: session.createdAt.toISOString(),
+    cancelledAt: session.cancelledAt?.toISOString() ?? null,
+    nextSessionId: session.nextSessionId,
+    games: session.games.map(getScheduledGameSummary)
+  };
+}
+
+function saveGameSession(session: GameSession) {
+  persist(storage.saveSchedule(session), `schedule ${session.id}`);
+  
+  notifyAdmins({
+    type: "schedule_updated_admin",
+    session: getSessionSummary(session)
+  });
+}
+
+function validateScheduledGame(input: ScheduledGameInput, index: number) {
+  const label = `Game ${index + 1}`;
+  const startsAt = new Date(input.startsAt);
+  if (isNaN(startsAt.getTime()) || startsAt.getTime() <= Date.now()) {
+    return { success: false, code: "INVALID_FIELD", message: `${label}: startsAt must be a time in the future` };
+  }
+  
+  // Without a roomId the game goes to the first room for its board type
+  const room = input.roomId
+    ? rooms.get(input.roomId)
+    : Array.from(rooms.values()).find(r => r.boardType === input.boardType);
+  if (!room) {
+    return { success: false, code: "ROOM_NOT_FOUND", message: `${label}: no ${input.roomId ?? input.boardType} room` };
+  }
+  if (input.boardType !== room.boardType) {
+    return { success: false, code: "BOARD_TYPE_MISMATCH", message: `${label}: room ${room.name} only plays ${room.boardType}` };
+  }
+  
+  const patterns: string[] | null = input.patterns?.length ? input.patterns : null;
+  if (patterns && !CONFIG.DEFAULT_PATTERNS[room.boardType]) {
+    return { success: false, code: "INVALID_FIELD", message: `${label}: ${room.boardType} games have fixed patterns` };
+  }
+  const unknown = (patterns ?? []).filter(name => !patternRegistry.has(name));
+  if (unknown.length > 0) {
+    return { success: false, code: "UNKNOWN_PATTERN", message: `${label}: unknown pattern(s) ${unknown.join(', ')}` };
+  }
+  
+  const tier = CONFIG.STAKE_TIERS[room.stakeTier];
+  if (!Number.isInteger(input.stake) || input.stake < tier.min || input.stake > tier.max) {
+    return { success: false, code: "INVALID_FIELD", message: `${label}: stake must be between ${tier.min} and ${tier.max} Birr in ${room.name}` };
+  }
+  
+  const game: ScheduledGame = {
+    id: generateId("scheduled"),
+    position: 0,
+    name: input.name?.trim() || label,
+    roomId: room.id,
+    boardType: room.boardType,
+    startsAt,
+    patterns,
+    stake: input.stake,
+    prize: input.prize ?? 0,
+    status: 'scheduled',
+    gameId: null,
+    note: null
+  };
+  return { success: true, message: "Valid", game };
+}
+
+function loadSchedule(data: AdminMessage<'admin_load_schedule'>, actor: string) {
+  const name = data.name.trim();
+  if (!name || !validateName(name)) {
+    return { success: false, code: "INVALID_NAME", message: "Invalid session name (2-50 characters required)" };
+  }
+  
+  const inputs: ScheduledGameInput[] = data.games;
+  if (inputs.length === 0 || inputs.length > CONFIG.SCHEDULE.MAX_GAMES_PER_SESSION) {
+    return { success: false, code: "INVALID_FIELD", message: `A session needs 1-${CONFIG.SCHEDULE.MAX_GAMES_PER_SESSION} games` };
+  }
+  
+  const games: ScheduledGame[] = [];
+  for (const [index, input] of inputs.entries()) {
+    const result = validateScheduledGame(input, index);
+    if (!result.success) {
+      return result;
+    }
+    games.push(result.game!);
+  }
+  games.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  games.forEach((game, index) => game.position = index + 1);
+  
+  const session: GameSession = {
+    id: generateId("session"),
+    name,
+    recurrence: data.recurrence ?? 'none',
+    games,
+    createdBy: actor,
+    createdAt: new Date(),
+    cancelledAt: null,
+    nextSessionId: null
+  };
+  gameSessions.set(session.id, session);
+  saveGameSession(session);
+  
+  logEvent(`Schedule loaded: ${session.name} with ${games.length} games from ${games[0].startsAt.toISOString()} (${session.recurrence})`);
+  return { success: true, message: `Session ${session.name} scheduled with ${games.length} games`, sessionId: session.id };
+}
+
+function cancelSchedule(sessionId: string) {
+  const session = gameSessions.get(sessionId);
+  if (!session) {
+    return { success: false, code: "SCHEDULE_NOT_FOUND", message: "Session not found" };
+  }
+  if (session.cancelledAt) {
+    return { success: false, code: "INVALID_STATE", message: "Session is already cancelled" };
+  }
+  
+  // A game already being played finishes normally
+  const released = new Set<Room>();
+  for (const game of session.games) {
+    if (game.status === 'scheduled' || game.status === 'selling') {
+      if (game.status === 'selling' && rooms.has(game.roomId)) {
+        released.add(rooms.get(game.roomId)!);
+      }
+      game.status = 'cancelled';
+      game.note = "Session cancelled";
+    }
+  }
+  session.cancelledAt = new Date();
+  saveGameSession(session);
+  
+  for (const room of released) {
+    releaseRoom(room);
+    if (room.phase === 'countdown') {
+      setPhase(room, 'lobby');
+    }
+    checkCountdown(room);
+  }
+  
+  logEvent(`Schedule cancelled: ${session.name}`);
+  return { success: true, message: `Session ${session.name} cancelled` };
+}
+
+// Applies a scheduled game's pattern and stake to its room and opens sales for it; the prize is
+// picked up by getPrizeRules while the game owns the room
+function prepareScheduledGame(room: Room, game: ScheduledGame) {
+  setActivePatterns(room, { patterns: game.patterns ?? [] });
+  room.minStake = game.stake;
+  room.maxStake = game.stake;
+  
+  // Players carried over from the last game pay this game's stake; fresh stakes are already paid
+  for (const player of room.players.values()) {
+    if (!player.stakeRefundable) {
+      player.stake = game.stake;
+    }
+  }
+  refreshPrizePool(room);
+  
+  game.status = 'selling';
+  saveGameSession(findGameSession(game.id)!);
+  saveRoom(room);
+  logEvent(`[${room.id}] Selling ${game.name} (${game.stake} Birr, starts ${game.startsAt.toISOString()})`);
+  
+  broadcastToPlayers(room, {
+    type: "scheduled_game",
+    game: getScheduledGameSummary(game),
+    prizePool: room.prizePool
+  });
+}
+
+// Hands a room back to its stake tier once no scheduled game owns it
+function releaseRoom(room: Room) {
+  const tier = CONFIG.STAKE_TIERS[room.stakeTier];
+  room.minStake = tier.min;
+  room.maxStake = tier.max;
+  refreshPrizePool(room);
+  saveRoom(room);
+}
+
+function markScheduledGame(room: Room, from: ScheduledGameStatus, to: ScheduledGameStatus, note: string | null = null): ScheduledGame | null {
+  const game = getScheduledGames(room, [from])[0];
+  if (!game) return null;
+  
+  game.status = to;
+  game.note = note;
+  if (to === 'running') {
+    game.gameId = room.gameId;
+  }
+  saveGameSession(findGameSession(game.id)!);
+  logEvent(`[${room.id}] ${game.name}: ${to}${note ? ` (${note})` : ''}`);
+  return game;
+}
+
+// Creates the next occurrence of a finished recurring session, skipping any that are already past
+// and leaving out games whose room has since been closed
+function scheduleNextOccurrence(session: GameSession) {
+  const games = session.games.filter(game => rooms.has(game.roomId));
+  if (games.length === 0) {
+    session.recurrence = 'none';
+    saveGameSession(session);
+    logEvent(`Schedule ${session.name} stops repeating, none of its rooms are open`);
+    return;
+  }
+  
+  const interval = SCHEDULE_RECURRENCE[session.recurrence];
+  const first = session.games[0].startsAt.getTime();
+  const occurrences = Math.max(1, Math.ceil((Date.now() - first) / interval));
+  
+  const next: GameSession = {
+    ...session,
+    id: generateId("session"),
+    games: games.map((game, index) => ({
+      ...game,
+      id: generateId("scheduled"),
+      position: index + 1,
+      startsAt: new Date(game.startsAt.getTime() + occurrences * interval),
+      status: 'scheduled',
+      gameId: null,
+      note: null
+    })),
+    createdAt: new Date(),
+    nextSessionId: null
+  };
+  session.nextSessionId = next.id;
+  gameSessions.set(next.id, next);
+  saveGameSession(session);
+  saveGameSession(next);
+  
+  logEvent(`Schedule ${session.name} repeats from ${next.games[0].startsAt.toISOString()}`);
+}
+
+function runScheduler() {
+  const now = Date.now();
+  
+  for (const room of rooms.values()) {
+    const game = getNextScheduledGame(room);
+    if (!game) continue;
+    
+    if (game.status === 'scheduled' && now > game.startsAt.getTime() + CONFIG.SCHEDULE.MISSED_AFTER) {
+      game.status = 'missed';
+      game.note = "The room was busy past the start time";
+      saveGameSession(findGameSession(game.id)!);
+      logEvent(`[${room.id}] Missed ${game.name}`);
+      continue;
+    }
+    
+    // Scheduled games wait for the room's current game to finish
+    if (room.phase !== 'lobby') continue;
+    
+    if (game.status === 'scheduled' && now >= game.startsAt.getTime() - CONFIG.SCHEDULE.SALES_OPEN) {
+      prepareScheduledGame(room, game);
+    }
+    
+    if (game.status === 'selling' && now >= game.startsAt.getTime() - room.lifecycle.countdown) {
+      // A late game still gets a full countdown so players can buy in
+      const endsAt = game.startsAt.getTime() > now ? game.startsAt : new Date(now + room.lifecycle.countdown);
+      setPhase(room, 'countdown', endsAt);
+    }
+  }
+  
+  for (const session of gameSessions.values()) {
+    const finished = session.games.every(game => FINAL_SCHEDULE_STATUSES.includes(game.status));
+    if (finished && session.recurrence !== 'none' && !session.cancelledAt && !session.nextSessionId) {
+      scheduleNextOccurrence(session);
+    }
+  }
+}
+
+function getUpcomingGames(room?: Room) {
+  return Array.from(gameSessions.values())
+    .filter(session => !session.cancelledAt)
+    .flatMap(session => session.games)
+    .filter(game => ['scheduled', 'selling', 'running'].includes(game.status) && (!room || game.roomId === room.id))
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+    .map(getScheduledGameSummary);
+}
+
+// ============ CLAIMS ============
+function isClaimWindowOpen(room: Room): boolean {
+  return room.lastCallAt !== null &&
+    Date.now() - room.lastCallAt.getTime() <= room.claimRules.claimWindow;
+}
+
+function clearPendingClaims(room: Room) {
+  if (room.claimTimer) {
+    clearTimeout(room.claimTimer);
+    room.claimTimer = null;
+  }
+  room.pendingClaims = [];
+}
+
+function settlePendingClaims(room: Room) {
+  const claims = room.pendingClaims;
+  clearPendingClaims(room);
+  
+  if (room.gameActive && claims.length > 0) {
+    declareWinners(room, claims);
+  }
+  
+  // A stage before the last one was won, so calling carries on
+  if (room.phase === 'verifying') {
+    setPhase(room, 'calling');
+    if (!room.callTimer) {
+      startAutoCalling(room);
+    }
+  }
+}
+
+function penalizeFalseClaim(room: Room, player: Player): FalseClaimPenalty {
+  const penalties = room.claimRules.falseClaimPenalties;
+  player.falseClaims++;
+  const penalty = penalties[Math.min(player.falseClaims, penalties.length) - 1] ?? 'warning';
+  
+  if (penalty === 'lockout') {
+    player.lockedOut = true;
+  }
+  
+  logEvent(`[${room.id}] False claim #${player.falseClaims} by ${player.name}: ${penalty}`);
+  
+  notifyAdmins({
+    type: "false_claim_admin",
+    roomId: room.id,
+    playerId: player.id,
+    playerName: player.name,
+    phone: player.phone,
+    falseClaims: player.falseClaims,
+    penalty
+  });
+  
+  // Forfeiting removes the player; their stake stays in the pool
+  if (penalty === 'forfeit') {
+    room.players.delete(player.id);
+    revokeSessions({ playerId: player.id }, "forfeited after false claims");
+    
+    broadcastToPlayers(room, {
+      type: "player_left",
+      playerId: player.id,
+      totalPlayers: room.players.size
+    });
+  }
+  
+  saveRoom(room);
+  return penalty;
+}
+
+function submitClaim(room: Room, player: Player) {
+  if (player.lockedOut) {
+    return { success: false, code: "LOCKED_OUT", reason: "locked_out", message: "You are locked out of claiming for the rest of this game" };
+  }
+  
+  // Only the cards that carry a winning pattern are claimed
+  const patterned = player.cards.flatMap(card => {
+    const boardNumbers = generateBoardNumbers(player.boardType, card.boardNumber, room.cardSalt);
+    const pattern = checkWinningPattern(room, card.markedNumbers, boardNumbers);
+    return pattern ? [{ player, card, pattern, boardNumbers }] : [];
+  });
+  
+  // Claiming again on a card voided on review is not a false claim, it just cannot win
+  if (patterned.length > 0 && patterned.every(({ card }) => card.voided)) {
+    return { success: false, code: "CARD_VOIDED", reason: "card_voided", message: "A win on this card was rejected, so it cannot win again this game" };
+  }
+  const matches = patterned.filter(({ card }) => !card.voided);
+  
+  if (room.claimRules.daubMode === 'auto') {
+    if (matches.length === 0) {
+      return { success: false, code: "NO_WINNING_PATTERN", reason: "no_pattern", message: "You don't have a winning pattern yet" };
+    }
+    declareWinners(room, matches);
+    return { success: true, message: "Claim accepted", claims: matches };
+  }
+  
+  if (matches.length === 0) {
+    const penalty = penalizeFalseClaim(room, player);
+    return { success: false, code: "NO_WINNING_PATTERN", reason: "no_pattern", message: "None of your cards has a winning pattern", penalty };
+  }
+  
+  // A claim only counts on the ball that completed it, and only inside its window
+  const claims = isClaimWindowOpen(room) ? matches.filter(({ card, boardNumbers }) => {
+    const withoutLastBall = card.markedNumbers.filter(num => num !== room.currentNumber);
+    return !checkWinningPattern(room, withoutLastBall, boardNumbers);
+  }) : [];
+  if (claims.length === 0) {
+    return { success: false, code: "CLAIM_TOO_LATE", reason: "missed_ball", message: "Claims have to be made before the claim window of the completing ball closes" };
+  }
+  
+  const settlesAt = new Date(room.lastCallAt!.getTime() + room.claimRules.claimWindow);
+  for (const { card, pattern } of claims) {
+    if (room.pendingClaims.some(claim => claim.card === card)) continue;
+    room.pendingClaims.push({ player, card, pattern });
+    logEvent(`[${room.id}] Claim received from ${player.name} on board ${card.boardNumber} (${pattern.label})`);
+  }
+  
+  if (!room.claimTimer) {
+    // Every card claimed on the same ball inside the window shares the stage
+    room.claimTimer = setTimeout(() => settlePendingClaims(room), Math.max(settlesAt.getTime() - Date.now(), 0)) as unknown as number;
+    // A paused game stays paused; the claims still settle on time
+    if (room.phase === 'calling') {
+      setPhase(room, 'verifying', settlesAt);
+    }
+  }
+  
+  return { success: true, message: "Claim received", claims, settlesAt };
+}
+
+function setClaimRules(room: Room, data: AdminMessage<'admin_set_claim_rules'>) {
+  if (room.gameActive) {
+    return { success: false, code: "GAME_ACTIVE", message: "Cannot change claim rules while a game is active" };
+  }
+  
+  const rules = { ...room.claimRules };
+  if (data.daubMode !== undefined) {
+    if (data.daubMode !== 'auto' && data.daubMode !== 'manual') {
+      return { success: false, code: "INVALID_RULES", message: "daubMode must be 'auto' or 'manual'" };
+    }
+    rules.daubMode = data.daubMode;
+  }
+  
+  if (data.claimWindow !== undefined) {
+    const claimWindow = Number(data.claimWindow);
+    const interval = Math.min(room.callPace.interval, room.callPace.slowInterval ?? room.callPace.interval);
+    if (!Number.isInteger(claimWindow) || claimWindow < 1000 || claimWindow >= interval) {
+      return { success: false, code: "INVALID_RULES", message: `claimWindow must be between 1000 and ${interval - 1} ms` };
+    }
+    rules.claimWindow = claimWindow;
+  }
+  
+  if (data.falseClaimPenalties !== undefined) {
+    const penalties = Array.isArray(data.falseClaimPenalties) ? data.falseClaimPenalties : [];
+    const valid: string[] = ['warning', 'lockout', 'forfeit'];
+    if (penalties.length === 0 || !penalties.every(penalty => valid.includes(penalty))) {
+      return { success: false, code: "INVALID_RULES", message: "falseClaimPenalties must list warning, lockout or forfeit" };
+    }
+    rules.falseClaimPenalties = penalties;
+  }
+  
+  if (data.reviewWins !== undefined) {
+    if (typeof data.reviewWins !== 'boolean') {
+      return { success: false, code: "INVALID_RULES", message: "reviewWins must be true or false" };
+    }
+    rules.reviewWins = data.reviewWins;
+  }
+  
+  room.claimRules = rules;
+  saveRoom(room);
+  logEvent(`[${room.id}] Claim rules set: ${rules.daubMode} daub, ${rules.claimWindow}ms window, penalties ${rules.falseClaimPenalties.join(' > ')}${rules.reviewWins ? ', wins reviewed' : ''}`);
+  
+  broadcastToPlayers(room, {
+    type: "claim_rules_changed",
+    claimRules: rules
+  });
+  
+  return { success: true, message: "Claim rules updated", claimRules: rules };
+}
+
+function getClaimantSummaries(claims: StageClaim[]) {
+  return claims.map(({ player, card, pattern }) => ({
+    playerId: player.id,
+    playerName: player.name,
+    boardNumber: card.boardNumber,
+    pattern: pattern.name,
+    patternLabel: pattern.label
+  }));
+}
+
+// What the floor operator needs to check a held win: each card next to the numbers called so far
+function getClaimReviewSummary(room: Room) {
+  const review = room.claimReview!;
+  return {
+    heldAt: review.heldAt.toISOString(),
+    stage: getCurrentStage(room).id,
+    calledNumbers: room.calledNumbers,
+    claims: review.claims.map(({ player, card, pattern }) => ({
+      playerId: player.id,
+      playerName: player.name,
+      phone: player.phone,
+      boardType: player.boardType,
+      boardNumber: card.boardNumber,
+      boardNumbers: generateBoardNumbers(player.boardType, card.boardNumber, room.cardSalt),
+      markedNumbers: card.markedNumbers,
+      pattern: pattern.name,
+      patternLabel: pattern.label
+    }))
+  };
+}
+
+function holdForReview(room: Room, claims: StageClaim[]) {
+  stopAutoCalling(room);
+  room.claimReview = { claims, heldAt: new Date() };
+  for (const { player, card } of claims) {
+    recordClaim(room, player, 'held', [card.boardNumber]);
+  }
+  setPhase(room, 'reviewing');
+  logEvent(`[${room.id}] Holding ${claims.length} claim(s) for review: ${claims.map(({ player, card }) => `${player.name} on board ${card.boardNumber}`).join(', ')}`);
+  
+  broadcastToPlayers(room, {
+    type: "claim_under_review",
+    roomId: room.id,
+    stage: getCurrentStage(room).id,
+    claimants: getClaimantSummaries(claims)
+  });
+  
+  notifyAdmins({
+    type: "claim_review_admin",
+    roomId: room.id,
+    review: getClaimReviewSummary(room)
+  });
+}
+
+function confirmClaimReview(room: Room, reviewer: string) {
+  if (room.phase !== 'reviewing' || !room.claimReview) {
+    return { success: false, code: "WRONG_PHASE", message: "No claim is waiting for review" };
+  }
+  
+  // Anyone kicked while the claim was held forfeits it
+  const claims = room.claimReview.claims.filter(({ player }) => room.players.get(player.id) === player);
+  if (claims.length === 0) {
+    return rejectClaimReview(room, reviewer, "The claimants have left the room");
+  }
+  room.claimReview = null;
+  for (const { player, card } of claims) {
+    recordClaim(room, player, 'confirmed', [card.boardNumber], `by ${reviewer}`);
+  }
+  logEvent(`[${room.id}] ${reviewer} confirmed ${claims.length} claim(s)`);
+  
+  broadcastToPlayers(room, {
+    type: "claim_reviewed",
+    roomId: room.id,
+    decision: 'confirmed',
+    reason: null,
+    claimants: getClaimantSummaries(claims)
+  });
+  
+  payWinners(room, claims);
+  // The held ball may have completed the next stage too, which goes to review in turn
+  checkStageWinners(room);
+  // The final stage moves on to the payout; earlier stages carry on calling
+  if (room.phase === 'reviewing' && !room.claimReview) {
+    setPhase(room, 'calling');
+    startAutoCalling(room);
+  }
+  
+  return { success: true, message: `Confirmed ${claims.length} claim(s)`, decision: 'confirmed' };
+}
+
+function rejectClaimReview(room: Room, reviewer: string, reason?: string) {
+  if (room.phase !== 'reviewing' || !room.claimReview) {
+    return { success: false, code: "WRONG_PHASE", message: "No claim is waiting for review" };
+  }
+  
+  // A voided win is not the player's fault: only the rejected card drops out, their other cards play on
+  const claims = room.claimReview.claims;
+  for (const { player, card } of claims) {
+    card.voided = true;
+    recordClaim(room, player, 'rejected', [card.boardNumber], `by ${reviewer}${reason?.trim() ? `: ${reason.trim()}` : ''}`);
+  }
+  room.claimReview = null;
+  logEvent(`[${room.id}] ${reviewer} rejected ${claims.length} claim(s)${reason ? `: ${reason}` : ''}`);
+  
+  broadcastToPlayers(room, {
+    type: "claim_reviewed",
+    roomId: room.id,
+    decision: 'rejected',
+    reason: reason?.trim() || null,
+    claimants: getClaimantSummaries(claims)
   });
   
-  // Notify admins
+  setPhase(room, 'calling');
+  startAutoCalling(room);
+  
+  return { success: true, message: `Rejected ${claims.length} claim(s)`, decision: 'rejected' };
+}
+
+// ============ RATE LIMITING ============
+// Requests the server makes to itself, such as mock payment callbacks, have no connection
+function getClientIp(request: Request, connInfo?: ConnInfo): string {
+  if (CONFIG.RATE_LIMIT.TRUST_PROXY) {
+    const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0].trim();
+    if (forwarded) return forwarded;
+  }
+  return (connInfo?.remoteAddr as Deno.NetAddr | undefined)?.hostname ?? "local";
+}
+
+function getClientLimits(ip: string): ClientLimits {
+  let client = clientLimits.get(ip);
+  if (!client) {
+    client = {
+      ip,
+      connections: new Set(),
+      buckets: new Map(),
+      violations: [],
+      throttledTotal: 0,
+      lastThrottledType: null,
+      lastThrottledAt: null,
+      bannedUntil: null,
+      bans: 0
+    };
+    clientLimits.set(ip, client);
+  }
+  return client;
+}
+
+function isClientBanned(client: ClientLimits): boolean {
+  return !!client.bannedUntil && client.bannedUntil.getTime() > Date.now();
+}
+
+// Refills the bucket for the time since it was last used, then spends one token if there is one
+function takeToken(buckets: Map<string, TokenBucket>, key: string, rule: RateLimitRule): { allowed: boolean; retryAfter: number } {
+  const now = Date.now();
+  const bucket = buckets.get(key) ?? { tokens: rule.capacity, updatedAt: now };
+  bucket.tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * rule.refillPerSecond);
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+  
+  if (bucket.tokens < 1) {
+    return { allowed: false, retryAfter: Math.ceil((1 - bucket.tokens) / rule.refillPerSecond * 1000) };
+  }
+  bucket.tokens -= 1;
+  return { allowed: true, retryAfter: 0 };
+}
+
+// Checked before the WebSocket upgrade so banned or greedy IPs never get a socket
+function admitConnection(ip: string): { success: boolean; code?: ErrorCode; status?: number; message: string } {
+  const client = getClientLimits(ip);
+  if (isClientBanned(client)) {
+    return { success: false, code: "BANNED", status: 403, message: "Temporarily banned for flooding" };
+  }
+  if (client.connections.size >= CONFIG.RATE_LIMIT.MAX_CONNECTIONS_PER_IP) {
+    return { success: false, code: "RATE_LIMITED", status: 429, message: "Too many connections from this address" };
+  }
+  return { success: true, message: "Admitted" };
+}
+
+function trackConnection(socket: WebSocket, ip: string) {
+  getClientLimits(ip).connections.add(socket);
+  socketLimits.set(socket, { ip, buckets: new Map() });
+  armAuthTimeout(socket);
+}
+
+// Sockets that are not signed in as a player by the deadline are closed
+function armAuthTimeout(socket: WebSocket) {
+  const limits = socketLimits.get(socket);
+  if (!limits) return;
+  
+  clearTimeout(limits.authTimer);
+  limits.authTimer = setTimeout(() => {
+    if (!socketSessions.has(socket) && socket.readyState === WebSocket.OPEN) {
+      socket.close(4008, "Authentication timeout");
+    }
+  }, CONFIG.RATE_LIMIT.AUTH_TIMEOUT) as unknown as number;
+}
+
+function releaseConnection(socket: WebSocket) {
+  const limits = socketLimits.get(socket);
+  if (!limits) return;
+  
+  clearTimeout(limits.authTimer);
+  socketLimits.delete(socket);
+  clientLimits.get(limits.ip)?.connections.delete(socket);
+}
+
+function checkMessageSize(socket: WebSocket, data: unknown): boolean {
+  const size = typeof data === "string" ? data.length : (data as ArrayBuffer)?.byteLength ?? 0;
+  if (size <= CONFIG.RATE_LIMIT.MAX_MESSAGE_SIZE) {
+    return true;
+  }
+  
+  const limits = socketLimits.get(socket);
+  if (limits) {
+    recordViolation(getClientLimits(limits.ip), "oversized");
+  }
+  socket.close(1009, "Message too big");
+  return false;
+}
+
+// Spends a token from the socket's bucket and the IP's bucket for this message type
+function checkMessageRate(socket: WebSocket, type: string): { success: boolean; code?: ErrorCode; message: string; retryAfter?: number } {
+  const limits = socketLimits.get(socket);
+  if (!limits) {
+    return { success: true, message: "Not tracked" };
+  }
+  
+  const client = getClientLimits(limits.ip);
+  const perConnection = CONFIG.RATE_LIMIT.PER_CONNECTION;
+  const perIp = CONFIG.RATE_LIMIT.PER_IP;
+  // Unknown types share the default bucket so junk can't grow the bucket maps
+  const connectionKey = type in perConnection ? type : "default";
+  const ipKey = type in perIp ? type : "default";
+  
+  const connectionResult = takeToken(limits.buckets, connectionKey, perConnection[connectionKey]);
+  const ipResult = connectionResult.allowed
+    ? takeToken(client.buckets, ipKey, perIp[ipKey])
+    : connectionResult;
+    
+  if (ipResult.allowed) {
+    return { success: true, message: "Allowed" };
+  }
+  
+  recordViolation(client, type);
+  return {
+    success: false,
+    code: "RATE_LIMITED",
+    message: `Too many ${type.replace(/_/g, ' ')} messages, slow down`,
+    retryAfter: ipResult.retryAfter
+  };
+}
+
+function recordViolation(client: ClientLimits, type: string) {
+  const now = Date.now();
+  client.violations = client.violations.filter(at => now - at < CONFIG.RATE_LIMIT.VIOLATION_WINDOW);
+  client.violations.push(now);
+  client.throttledTotal++;
+  client.lastThrottledType = type;
+  client.lastThrottledAt = new Date(now);
+  
+  // One notice per burst is enough for the panel
+  if (client.violations.length === 1) {
+    logEvent(`Throttling ${client.ip} (${type})`);
+    notifyAdmins({
+      type: "client_throttled_admin",
+      client: getClientSummary(client)
+    });
+  }
+  
+  if (client.violations.length >= CONFIG.RATE_LIMIT.BAN_AFTER_VIOLATIONS && !isClientBanned(client)) {
+    banClient(client);
+  }
+}
+
+function banClient(client: ClientLimits) {
+  client.bannedUntil = new Date(Date.now() + CONFIG.RATE_LIMIT.BAN_DURATION);
+  client.bans++;
+  client.violations = [];
+  
+  for (const socket of client.connections) {
+    socket.close(1008, "Temporarily banned for flooding");
+  }
+  
+  logEvent(`Banned ${client.ip} until ${client.bannedUntil.toISOString()} after repeated flooding`);
   notifyAdmins({
-    type: "number_called_admin",
-    number: newNumber,
-    display: display,
-    totalCalled: gameState.calledNumbers.length
+    type: "client_banned_admin",
+    client: getClientSummary(client)
   });
-  
-  return { success: true, number: newNumber, display: display };
 }
 
-function startAutoCalling() {
-  if (gameState.autoCallInterval) {
-    clearInterval(gameState.autoCallInterval);
+function unbanClient(data: AdminMessage<'admin_unban_client'>) {
+  const client = clientLimits.get(data.ip?.toString() ?? "");
+  if (!client || !isClientBanned(client)) {
+    return { success: false, code: "NOT_BANNED", message: "That address is not banned" };
   }
   
-  gameState.autoCallInterval = setInterval(() => {
-    if (gameState.gameActive && !gameState.winner) {
-      callNumber();
-    }
-  }, CONFIG.AUTO_CALL_INTERVAL) as unknown as number;
+  client.bannedUntil = null;
+  client.violations = [];
+  logEvent(`Unbanned ${client.ip}`);
+  return { success: true, message: `Unbanned ${client.ip}`, ip: client.ip };
 }
 
-function stopAutoCalling() {
-  if (gameState.autoCallInterval) {
-    clearInterval(gameState.autoCallInterval);
-    gameState.autoCallInterval = null;
-  }
+function getClientSummary(client: ClientLimits) {
+  return {
+    ip: client.ip,
+    connections: client.connections.size,
+    recentViolations: client.violations.length,
+    throttledTotal: client.throttledTotal,
+    lastThrottledType: client.lastThrottledType,
+    lastThrottledAt: client.lastThrottledAt?.toISOString() ?? null,
+    bannedUntil: isClientBanned(client) ? client.bannedUntil!.toISOString() : null,
+    bans: client.bans
+  };
 }
 
-function checkWinners(calledNumber: number) {
-  // Update all players' marked numbers
-  for (const player of gameState.players.values()) {
-    // Get player's board numbers
-    const boardNumbers = generateBoardNumbers(player.boardType, player.boardNumber);
-    
-    // Check if called number is on player's board
-    if (boardNumbers.includes(calledNumber) && !player.markedNumbers.includes(calledNumber)) {
-      player.markedNumbers.push(calledNumber);
-      
-      // Check if player has a winning pattern
-      if (checkWinningPattern(player, boardNumbers)) {
-        declareWinner(player);
-        return;
-      }
-    }
-  }
+// Clients that have been throttled or banned, most recent first
+function getThrottledClients() {
+  return Array.from(clientLimits.values())
+    .filter(client => client.throttledTotal > 0 || isClientBanned(client))
+    .sort((a, b) => (b.lastThrottledAt?.getTime() ?? 0) - (a.lastThrottledAt?.getTime() ?? 0))
+    .map(getClientSummary);
 }
 
-function checkWinningPattern(player: Player, boardNumbers: number[]): boolean {
-  const markedSet = new Set(player.markedNumbers);
-  
-  // Different patterns for different board types
-  switch (player.boardType) {
-    case '75ball':
-    case '50ball':
-      return check75BallPattern(markedSet, boardNumbers);
-    case '90ball':
-      return check90BallPattern(markedSet);
-    case '30ball':
-      return check30BallPattern(markedSet);
-    case 'pattern':
-      return checkPatternBingo(markedSet, boardNumbers);
-    case 'coverall':
-      return checkCoverallPattern(markedSet, boardNumbers);
-    default:
-      return false;
+// ============ PROTOCOL ============
+// Every WebSocket message in both directions is described once here. Incoming messages are
+// validated against these schemas and GET /api/protocol serves them as JSON Schema.
+const PROTOCOL_VERSION = 1;
+const MIN_PROTOCOL_VERSION = 1; // clients that send no version are treated as this one
+
+const PHONE_SCHEMA = { type: 'string', pattern: '^09\\d{8}$', description: "Ethiopian mobile number, 09xxxxxxxx" } as const;
+const ID_SCHEMA = { type: 'string', minLength: 1, maxLength: 100 } as const;
+const OPTIONAL_ROOM_SCHEMA = { anyOf: [ID_SCHEMA, { type: 'null' }], description: "Room to act on; empty means every room where that makes sense" } as const;
+const AMOUNT_SCHEMA = { type: 'integer', minimum: 1, description: "Whole Birr" } as const;
+const TIMESTAMP_SCHEMA = { type: 'string', format: 'date-time' } as const;
+const OBJECT_SCHEMA = { type: 'object' } as const;
+const LIST_SCHEMA = { type: 'array', items: OBJECT_SCHEMA } as const;
+const PHASE_SCHEMA = { type: 'string', enum: ['lobby', 'countdown', 'calling', 'verifying', 'reviewing', 'paused', 'paid', 'cooldown'] } as const;
+const REQUEST_ID_SCHEMA = { type: 'string', minLength: 1, maxLength: 100, description: "Chosen by the client and echoed in the reply" } as const;
+
+// Error codes clients can rely on. New codes may be added; existing ones never change meaning.
+const ERROR_CODES = [
+  // Protocol
+  'MALFORMED_JSON', 'INVALID_MESSAGE', 'UNSUPPORTED_VERSION', 'UNKNOWN_MESSAGE_TYPE', 'MISSING_FIELD', 'INVALID_FIELD',
+  'RATE_LIMITED', 'BANNED', 'NOT_BANNED', 'INTERNAL_ERROR',
+  // Sessions, phones and admin accounts
+  'NOT_AUTHENTICATED', 'FORBIDDEN', 'SESSION_INVALID', 'SESSION_REVOKED', 'SESSION_EXPIRED',
+  'PHONE_NOT_VERIFIED', 'CODE_TOO_SOON', 'TOO_MANY_CODES', 'CODE_NOT_SENT', 'CODE_INVALID', 'CODE_EXPIRED', 'TOO_MANY_ATTEMPTS',
+  'INVALID_CREDENTIALS', 'ADMIN_EXISTS', 'ADMIN_NOT_FOUND', 'LAST_OWNER',
+  // Rooms and registration
+  'INVALID_NAME', 'ROOM_NOT_FOUND', 'ROOM_FULL', 'ROOM_LIMIT_REACHED', 'BOARD_TYPE_MISMATCH', 'TOO_MANY_CARDS',
+  'BOARD_TAKEN', 'PHONE_IN_USE', 'PLAYER_NOT_FOUND',
+  // Money
+  'INSUFFICIENT_BALANCE', 'BELOW_MINIMUM', 'ABOVE_MAXIMUM', 'DUPLICATE_REQUEST', 'LEDGER_REJECTED', 'PAYMENT_FAILED', 'PAYMENT_UNAVAILABLE', 'WITHDRAWAL_NOT_FOUND', 'INVALID_STATE',
+  // Games and claims
+  'GAME_ACTIVE', 'GAME_NOT_ACTIVE', 'GAME_OVER', 'NOT_ENOUGH_PLAYERS', 'CLAIMS_PENDING', 'NO_NUMBERS_LEFT',
+  'WRONG_PHASE', 'SALES_CLOSED', 'LOCKED_OUT', 'CARD_VOIDED', 'NUMBER_NOT_CALLED', 'NO_WINNING_PATTERN', 'CLAIM_TOO_LATE',
+  'UNKNOWN_PATTERN', 'BUILT_IN_PATTERN', 'INVALID_RULES', 'SCHEDULE_NOT_FOUND'
+] as const;
+
+// Player client → server
+const CLIENT_MESSAGES = {
+  request_code: {
+    description: "Send a one-time code to a phone by SMS",
+    properties: { phone: PHONE_SCHEMA },
+    required: ["phone"]
+  },
+  verify_code: {
+    description: "Prove the phone with the code; a returning player still in a room is resumed",
+    properties: { phone: PHONE_SCHEMA, code: { type: 'string', pattern: '^\\d{4,10}$' } },
+    required: ["phone", "code"]
+  },
+  register: {
+    description: "Join a room with one or more cards; needs a verified phone",
+    properties: {
+      name: { type: 'string', minLength: 2, maxLength: 50 },
+      phone: PHONE_SCHEMA,
+      roomId: ID_SCHEMA,
+      boardType: { type: 'string', enum: CONFIG.BOARD_TYPES, description: "Without roomId, joins that board's default room" },
+      stake: { type: 'integer', minimum: 0, description: "Per card; clamped to the room's stake range" },
+      boardNumber: { type: 'integer', minimum: 1, maximum: CONFIG.CARDS_PER_DECK, description: "Single card, for older clients" },
+      boardNumbers: {
+        type: 'array',
+        items: { type: 'integer', minimum: 1, maximum: CONFIG.CARDS_PER_DECK },
+        minItems: 1,
+        maxItems: CONFIG.MAX_CARDS_PER_PLAYER
+      },
+      depositAmount: { type: 'integer', minimum: 0, description: "Top-up to start when the balance is short" }
+    },
+    required: ["name", "phone"]
+  },
+  deposit: {
+    description: "Start a mobile-money deposit; needs a verified phone",
+    properties: { phone: PHONE_SCHEMA, amount: AMOUNT_SCHEMA },
+    required: ["phone", "amount"]
+  },
+  reconnect: {
+    description: "Resume a seat with a session token; the token is rotated",
+    properties: { token: { type: 'string', minLength: 1, maxLength: 500 } },
+    required: ["token"]
+  },
+  logout: {
+    description: "Revoke the socket's session",
+    properties: {},
+    required: []
+  },
+  mark_number: {
+    description: "Daub a called number, on one card or every card that has it",
+    properties: {
+      number: { type: 'integer', minimum: 1, maximum: 90 },
+      boardNumber: { type: 'integer', minimum: 1, maximum: CONFIG.CARDS_PER_DECK }
+    },
+    required: ["number"]
+  },
+  claim_win: {
+    description: "Claim bingo in a manual-daub room",
+    properties: {},
+    required: []
+  },
+  chat: {
+    description: "Say something to the room",
+    properties: { message: { type: 'string', minLength: 1, maxLength: 500 } },
+    required: ["message"]
+  },
+  withdraw: {
+    description: "Ask for a payout; a retry with the same requestId is held only once",
+    properties: {
+      amount: AMOUNT_SCHEMA,
+      account: { type: 'string', minLength: 1, maxLength: 100 }
+    },
+    required: ["amount", "account"]
+  },
+  get_state: {
+    description: "Current game state of the player's room, or any room for spectators",
+    properties: { roomId: ID_SCHEMA },
+    required: []
+  },
+  get_statement: {
+    description: "The player's wallet statement",
+    properties: { limit: { type: 'integer', minimum: 1, maximum: 500 } },
+    required: []
+  },
+  get_withdrawals: {
+    description: "The player's withdrawal requests",
+    properties: {},
+    required: []
+  },
+  ping: {
+    description: "Keep-alive; answered with pong",
+    properties: {},
+    required: []
   }
-}
+} as const;
 
-function check75BallPattern(markedSet: Set<number>, boardNumbers: number[]): boolean {
-  // For 5x5 board
-  const gridSize = 5;
-  
-  // Check rows
-  for (let row = 0; row < gridSize; row++) {
-    let rowComplete = true;
-    for (let col = 0; col < gridSize; col++) {
-      const index = row * gridSize + col;
-      // Skip center if it's FREE space
-      if (index === 12) continue;
-      if (!markedSet.has(boardNumbers[index])) {
-        rowComplete = false;
-        break;
+// Admin panel → server; the role allowed to send each one is in ADMIN_ACTION_ROLES
+const ADMIN_MESSAGES = {
+  admin_call_number: { description: "Call the next number", properties: { roomId: ID_SCHEMA }, required: ["roomId"] },
+  admin_start_game: { description: "Start a game", properties: { roomId: ID_SCHEMA }, required: ["roomId"] },
+  admin_stop_game: { description: "Stop the game and refund stakes", properties: { roomId: ID_SCHEMA }, required: ["roomId"] },
+  admin_reset_game: { description: "Clear a finished game", properties: { roomId: ID_SCHEMA }, required: ["roomId"] },
+  admin_create_room: {
+    description: "Open a room",
+    properties: {
+      name: { type: 'string', minLength: 2, maxLength: 50 },
+      boardType: { type: 'string', enum: CONFIG.BOARD_TYPES },
+      stakeTier: { type: 'string' },
+      maxPlayers: { type: 'integer', minimum: 1 },
+      daubMode: { type: 'string', enum: ['auto', 'manual'] }
+    },
+    required: ["name", "boardType", "stakeTier"]
+  },
+  admin_list_rooms: { description: "Every room with its players", properties: {}, required: [] },
+  admin_close_room: { description: "Close a room and disconnect its players", properties: { roomId: ID_SCHEMA }, required: ["roomId"] },
+  admin_kick_player: { description: "Remove a player", properties: { playerId: ID_SCHEMA }, required: ["playerId"] },
+  admin_revoke_session: {
+    description: "Sign a player out everywhere, by player or by phone",
+    properties: { playerId: ID_SCHEMA, phone: PHONE_SCHEMA, reason: { type: 'string', maxLength: 200 } },
+    required: []
+  },
+  admin_broadcast: {
+    description: "System message to one room, or all rooms without roomId",
+    properties: { roomId: OPTIONAL_ROOM_SCHEMA, message: { type: 'string', minLength: 1, maxLength: 500 } },
+    required: ["message"]
+  },
+  admin_set_pattern: {
+    description: "Winning patterns for the next game; empty resets to the board defaults",
+    properties: { roomId: ID_SCHEMA, patterns: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] } },
+    required: ["roomId"]
+  },
+  admin_set_prize_rules: {
+    description: "Prize rules for the next game; missing fields keep their value",
+    properties: {
+      roomId: ID_SCHEMA,
+      houseCut: { type: 'number', minimum: 0, maximum: 1 },
+      jackpotContribution: { type: 'number', minimum: 0, maximum: 1 },
+      jackpotCalls: { type: 'integer', minimum: 0 },
+      guaranteedMinimum: { type: 'integer', minimum: 0 },
+      splitRule: { type: 'string', enum: ['equal', 'stake'] }
+    },
+    required: ["roomId"]
+  },
+  admin_set_claim_rules: {
+    description: "Daub mode, claim window, false-claim penalties and win review for the next game",
+    properties: {
+      roomId: ID_SCHEMA,
+      daubMode: { type: 'string', enum: ['auto', 'manual'] },
+      claimWindow: { type: 'integer', minimum: 1000 },
+      falseClaimPenalties: { type: 'array', items: { type: 'string', enum: ['warning', 'lockout', 'forfeit'] }, minItems: 1 },
+      reviewWins: { type: 'boolean', description: "Hold wins until an admin confirms them" }
+    },
+    required: ["roomId"]
+  },
+  admin_confirm_claim: { description: "Pay out the claims held for review", properties: { roomId: ID_SCHEMA }, required: ["roomId"] },
+  admin_reject_claim: {
+    description: "Void the claims held for review and carry on calling",
+    properties: { roomId: ID_SCHEMA, reason: { type: 'string', maxLength: 200 } },
+    required: ["roomId"]
+  },
+  admin_set_call_pace: {
+    description: "Time between automatic calls, optionally slower near the end; applies straight away",
+    properties: {
+      roomId: ID_SCHEMA,
+      interval: { type: 'integer', minimum: CONFIG.CALL_PACE.MIN_INTERVAL, maximum: CONFIG.CALL_PACE.MAX_INTERVAL, description: "ms" },
+      slowInterval: { anyOf: [{ type: 'integer', minimum: CONFIG.CALL_PACE.MIN_INTERVAL, maximum: CONFIG.CALL_PACE.MAX_INTERVAL }, { type: 'null' }], description: "ms, null turns the slowdown off" },
+      slowFrom: { type: 'integer', minimum: 0, description: "Calls after which the slow interval applies" }
+    },
+    required: ["roomId"]
+  },
+  admin_pause_game: {
+    description: "Stop calling without ending the game",
+    properties: { roomId: ID_SCHEMA, reason: { type: 'string', maxLength: 200 } },
+    required: ["roomId"]
+  },
+  admin_resume_game: { description: "Carry on calling a paused game", properties: { roomId: ID_SCHEMA }, required: ["roomId"] },
+  admin_set_lifecycle: {
+    description: "Minimum players, countdown, ticket-sales cutoff and cooldown; only in the lobby or cooldown",
+    properties: {
+      roomId: ID_SCHEMA,
+      minPlayers: { type: 'integer', minimum: 2 },
+      countdown: { type: 'integer', minimum: 5000, description: "ms" },
+      salesCutoff: { type: 'integer', minimum: 0, description: "ms before the first ball" },
+      cooldown: { type: 'integer', minimum: 0, description: "ms" }
+    },
+    required: ["roomId"]
+  },
+  admin_define_pattern: {
+    description: "Add a custom pattern from a 5x5 grid of x/. rows or from bitmasks",
+    properties: {
+      name: { type: 'string', minLength: 2, maxLength: 32 },
+      label: { type: 'string', maxLength: 50 },
+      grid: { type: 'array', items: { type: 'string', minLength: 5, maxLength: 5 }, minItems: 5, maxItems: 5, description: "Rows like X...X, X marks a required cell" },
+      masks: { type: 'array', items: { type: 'integer', minimum: 1 }, minItems: 1 }
+    },
+    required: ["name"]
+  },
+  admin_list_patterns: { description: "Registered patterns", properties: { roomId: OPTIONAL_ROOM_SCHEMA }, required: [] },
+  admin_deposit: {
+    description: "Record a cash deposit",
+    properties: { phone: PHONE_SCHEMA, amount: AMOUNT_SCHEMA, reference: { type: 'string', minLength: 1, maxLength: 100 } },
+    required: ["phone", "amount", "reference"]
+  },
+  admin_adjust_balance: {
+    description: "Credit or debit a wallet with a reason",
+    properties: {
+      phone: PHONE_SCHEMA,
+      amount: { type: 'integer' },
+      reason: { type: 'string', minLength: 1, maxLength: 200 },
+      idempotencyKey: ID_SCHEMA
+    },
+    required: ["phone", "amount", "reason"]
+  },
+  admin_list_withdrawals: {
+    description: "Withdrawals, optionally by status",
+    properties: { status: { type: 'string', enum: ['pending', 'processing', 'approved', 'paid', 'rejected', 'failed'] } },
+    required: []
+  },
+  admin_approve_withdrawal: { description: "Approve and pay out a withdrawal", properties: { withdrawalId: ID_SCHEMA }, required: ["withdrawalId"] },
+  admin_reject_withdrawal: {
+    description: "Reject a withdrawal and release the held money",
+    properties: { withdrawalId: ID_SCHEMA, reason: { type: 'string', maxLength: 200 } },
+    required: ["withdrawalId"]
+  },
+  admin_resolve_withdrawal: {
+    description: "Mark a payout stuck in processing or approved as paid or failed",
+    properties: {
+      withdrawalId: ID_SCHEMA,
+      outcome: { type: 'string', enum: ['paid', 'failed'] },
+      reason: { type: 'string', maxLength: 200 }
+    },
+    required: ["withdrawalId", "outcome"]
+  },
+  admin_list_deposits: {
+    description: "Deposits, optionally by status",
+    properties: { status: { type: 'string', enum: ['pending', 'confirmed', 'failed'] } },
+    required: []
+  },
+  admin_get_statement: {
+    description: "A player's wallet statement",
+    properties: { phone: PHONE_SCHEMA, limit: { type: 'integer', minimum: 1, maximum: 500 } },
+    required: ["phone"]
+  },
+  admin_reconciliation: { description: "Ledger reconciliation report", properties: {}, required: [] },
+  admin_list_users: { description: "Admin accounts", properties: {}, required: [] },
+  admin_create_user: {
+    description: "Create an admin account",
+    properties: {
+      username: { type: 'string', minLength: 3, maxLength: 32 },
+      password: { type: 'string', minLength: 10, maxLength: 200 },
+      role: { type: 'string', enum: ['operator', 'cashier', 'owner'] }
+    },
+    required: ["username", "password", "role"]
+  },
+  admin_update_user: {
+    description: "Change an admin's role, password or disabled flag",
+    properties: {
+      username: { type: 'string', minLength: 1, maxLength: 32 },
+      password: { type: 'string', minLength: 10, maxLength: 200 },
+      role: { type: 'string', enum: ['operator', 'cashier', 'owner'] },
+      disabled: { type: 'boolean' }
+    },
+    required: ["username"]
+  },
+  admin_change_password: {
+    description: "Change your own password",
+    properties: { password: { type: 'string', minLength: 10, maxLength: 200 } },
+    required: ["password"]
+  },
+  admin_list_clients: { description: "Throttled and banned client addresses", properties: {}, required: [] },
+  admin_unban_client: { description: "Lift a flooding ban", properties: { ip: { type: 'string', minLength: 1, maxLength: 100 } }, required: ["ip"] },
+  admin_load_schedule: {
+    description: "Load a session plan; each game takes over its room shortly before it starts",
+    properties: {
+      name: { type: 'string', minLength: 2, maxLength: 50 },
+      recurrence: { type: 'string', enum: ['none', 'daily', 'weekly'] },
+      games: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', maxLength: 50 },
+            startsAt: TIMESTAMP_SCHEMA,
+            boardType: { type: 'string', enum: CONFIG.BOARD_TYPES },
+            roomId: { ...ID_SCHEMA, description: "Defaults to the first room for the board type" },
+            patterns: { type: 'array', items: { type: 'string' } },
+            stake: { type: 'integer', minimum: 1, description: "Birr per card" },
+            prize: { type: 'integer', minimum: 0, description: "Guaranteed minimum prize in Birr" }
+          },
+          required: ["startsAt", "boardType", "stake"]
+        }
       }
+    },
+    required: ["name", "games"]
+  },
+  admin_list_schedules: { description: "Every session plan", properties: {}, required: [] },
+  admin_cancel_schedule: { description: "Cancel a session's games that have not started", properties: { sessionId: ID_SCHEMA }, required: ["sessionId"] },
+  admin_get_stats: { description: "Room or server totals", properties: { roomId: OPTIONAL_ROOM_SCHEMA }, required: [] }
+} as const;
+
+// Server → player and admin clients; these are documentation only and not checked at runtime
+const SERVER_MESSAGES: Record<string, { description: string; properties: Record<string, JsonSchema>; required: readonly string[] }> = {
+  error: {
+    description: "A request failed",
+    properties: {
+      code: { type: 'string', enum: ERROR_CODES, description: "Machine-readable reason" },
+      message: { type: 'string' },
+      field: { type: 'string', description: "Offending field for validation errors" },
+      retryAfter: { type: 'integer', description: "Milliseconds to wait when throttled" },
+      phase: { ...PHASE_SCHEMA, description: "Room phase when an action was refused for it" }
+    },
+    required: ["code", "message"]
+  },
+  pong: { description: "Reply to ping", properties: {}, required: [] },
+  logged_out: { description: "The session is revoked; the socket must authenticate again", properties: {}, required: [] },
+  code_sent: {
+    description: "A code is on its way",
+    properties: { phone: PHONE_SCHEMA, expiresAt: TIMESTAMP_SCHEMA, resendAfter: TIMESTAMP_SCHEMA },
+    required: ["phone", "expiresAt", "resendAfter"]
+  },
+  phone_verified: { description: "The phone is proven on this socket", properties: { phone: PHONE_SCHEMA, account: OBJECT_SCHEMA }, required: ["phone", "account"] },
+  registered: {
+    description: "Seated in a room",
+    properties: {
+      playerId: { type: 'string' },
+      token: { type: 'string', description: "Session token for reconnect" },
+      tokenExpiresAt: TIMESTAMP_SCHEMA,
+      room: OBJECT_SCHEMA,
+      balance: { type: 'integer' },
+      boardNumbers: { type: 'array', items: { type: 'integer' }, description: "First card's numbers, for older clients" },
+      cards: LIST_SCHEMA,
+      gameState: OBJECT_SCHEMA,
+      players: LIST_SCHEMA
+    },
+    required: ["playerId", "token", "room", "cards"]
+  },
+  reconnected: {
+    description: "Seat resumed; carries a rotated token",
+    properties: {
+      playerId: { type: 'string' },
+      token: { type: 'string' },
+      tokenExpiresAt: TIMESTAMP_SCHEMA,
+      room: OBJECT_SCHEMA,
+      boardNumbers: { type: 'array', items: { type: 'integer' } },
+      markedNumbers: { type: 'array', items: { type: 'integer' } },
+      cards: LIST_SCHEMA,
+      gameState: OBJECT_SCHEMA
+    },
+    required: ["playerId", "token", "room", "cards"]
+  },
+  session_revoked: { description: "The socket's session no longer works", properties: { reason: { type: 'string' } }, required: [] },
+  deposit_required: {
+    description: "Balance too low to register; a deposit was started",
+    properties: { shortfall: { type: 'integer' }, deposit: OBJECT_SCHEMA, instructions: { type: 'string' } },
+    required: ["shortfall", "deposit"]
+  },
+  deposit_initiated: { description: "Deposit started", properties: { deposit: OBJECT_SCHEMA, instructions: { type: 'string' } }, required: ["deposit"] },
+  deposit_status: { description: "Deposit settled or failed", properties: { deposit: OBJECT_SCHEMA, balance: { type: 'integer' } }, required: ["deposit"] },
+  balance_updated: { description: "Wallet changed", properties: { balance: { type: 'integer' }, held: { type: 'integer' } }, required: ["balance"] },
+  withdrawal_requested: {
+    description: "Withdrawal accepted for review",
+    properties: { withdrawal: OBJECT_SCHEMA, newBalance: { type: 'integer' }, timestamp: TIMESTAMP_SCHEMA },
+    required: ["withdrawal"]
+  },
+  withdrawal_status: { description: "Withdrawal moved on", properties: { withdrawal: OBJECT_SCHEMA, balance: { type: 'integer' } }, required: ["withdrawal"] },
+  withdrawals: { description: "The player's withdrawals", properties: { withdrawals: LIST_SCHEMA }, required: ["withdrawals"] },
+  statement: {
+    description: "Wallet statement",
+    properties: { phone: PHONE_SCHEMA, balance: { type: 'integer' }, held: { type: 'integer' }, entries: LIST_SCHEMA },
+    required: ["entries"]
+  },
+  game_state: {
+    description: "Room state on request",
+    properties: {
+      roomId: { type: 'string' },
+      gameId: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      gameActive: { type: 'boolean' },
+      phase: PHASE_SCHEMA,
+      phaseEndsAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] },
+      salesCloseAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] },
+      nextCallAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] },
+      calledNumbers: { type: 'array', items: { type: 'integer' } },
+      currentNumber: { anyOf: [{ type: 'integer' }, { type: 'null' }] },
+      stage: { type: 'string' },
+      stageWinners: LIST_SCHEMA
+    },
+    required: ["roomId", "gameActive", "phase", "calledNumbers"]
+  },
+  player_joined: {
+    description: "Someone joined the room",
+    properties: { playerId: { type: 'string' }, playerName: { type: 'string' }, cards: { type: 'integer' }, totalPlayers: { type: 'integer' }, prizePool: { type: 'integer' } },
+    required: ["playerId", "playerName"]
+  },
+  player_left: { description: "Someone left the room", properties: { playerId: { type: 'string' }, totalPlayers: { type: 'integer' } }, required: ["playerId"] },
+  game_started: {
+    description: "A game began; drawCommitment lets players verify the draw afterwards",
+    properties: {
+      roomId: { type: 'string' },
+      gameId: { type: 'string' },
+      drawCommitment: { type: 'string' },
+      startedAt: TIMESTAMP_SCHEMA,
+      prizePool: { type: 'integer' },
+      daubMode: { type: 'string', enum: ['auto', 'manual'] },
+      claimWindow: { type: 'integer' },
+      nextCallAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] },
+      stages: LIST_SCHEMA,
+      patterns: LIST_SCHEMA
+    },
+    required: ["roomId", "gameId", "drawCommitment"]
+  },
+  number_called: {
+    description: "A ball was drawn",
+    properties: {
+      number: { type: 'integer' },
+      display: { type: 'string', description: "Number with its column letter, e.g. B7" },
+      totalCalled: { type: 'integer' },
+      claimWindow: { anyOf: [{ type: 'integer' }, { type: 'null' }], description: "Milliseconds to claim in manual-daub rooms" },
+      nextCallAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }], description: "When the next ball is due, null once the game stops calling" }
+    },
+    required: ["number", "display", "totalCalled"]
+  },
+  claim_received: {
+    description: "A manual claim is valid and settles when the claim window closes",
+    properties: { pattern: { type: 'string' }, patternLabel: { type: 'string' }, boardNumbers: { type: 'array', items: { type: 'integer' } }, settlesAt: TIMESTAMP_SCHEMA },
+    required: ["pattern", "settlesAt"]
+  },
+  claim_rejected: {
+    description: "A manual claim was wrong or too late",
+    properties: {
+      code: { type: 'string', enum: ERROR_CODES },
+      reason: { type: 'string', description: "Older lowercase form of code" },
+      message: { type: 'string' },
+      penalty: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      falseClaims: { type: 'integer' }
+    },
+    required: ["code", "reason", "message"]
+  },
+  winner: {
+    description: "A stage was won; winners lists every co-winner",
+    properties: {
+      playerId: { type: 'string' },
+      playerName: { type: 'string' },
+      prize: { type: 'integer' },
+      jackpot: { type: 'integer' },
+      pattern: { type: 'string' },
+      winners: LIST_SCHEMA,
+      stage: { type: 'string' },
+      nextStage: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      timestamp: TIMESTAMP_SCHEMA
+    },
+    required: ["playerId", "prize", "winners", "stage"]
+  },
+  draw_revealed: {
+    description: "The seed behind a finished game's draw",
+    properties: { gameId: { type: 'string' }, commitment: { type: 'string' }, seed: { type: 'string' }, drawOrder: { type: 'array', items: { type: 'integer' } } },
+    required: ["gameId", "commitment", "seed", "drawOrder"]
+  },
+  game_stopped: { description: "The game was stopped", properties: { roomId: { type: 'string' } }, required: ["roomId"] },
+  game_reset: {
+    description: "The room is ready for a new game; cards carry the player's boards with their new numbers",
+    properties: { roomId: { type: 'string' }, cards: LIST_SCHEMA },
+    required: ["roomId", "cards"]
+  },
+  claim_under_review: {
+    description: "Calling stopped while an admin checks a win",
+    properties: { roomId: { type: 'string' }, stage: { type: 'string' }, claimants: LIST_SCHEMA },
+    required: ["roomId", "claimants"]
+  },
+  claim_reviewed: {
+    description: "The held win was confirmed and is paid next, or rejected and calling carries on",
+    properties: {
+      roomId: { type: 'string' },
+      decision: { type: 'string', enum: ['confirmed', 'rejected'] },
+      reason: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      claimants: LIST_SCHEMA
+    },
+    required: ["roomId", "decision", "claimants"]
+  },
+  game_paused: {
+    description: "Calling stopped until an admin resumes the game; marking and claiming still work",
+    properties: { roomId: { type: 'string' }, reason: { anyOf: [{ type: 'string' }, { type: 'null' }] }, pausedAt: TIMESTAMP_SCHEMA },
+    required: ["roomId", "pausedAt"]
+  },
+  game_resumed: {
+    description: "Calling carries on",
+    properties: { roomId: { type: 'string' }, pausedFor: { type: 'integer', description: "ms" }, nextCallAt: TIMESTAMP_SCHEMA },
+    required: ["roomId", "nextCallAt"]
+  },
+  phase_changed: {
+    description: "The room moved to another phase; timed phases say when they end",
+    properties: {
+      roomId: { type: 'string' },
+      gameId: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      phase: PHASE_SCHEMA,
+      previousPhase: PHASE_SCHEMA,
+      changedAt: TIMESTAMP_SCHEMA,
+      endsAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] },
+      salesCloseAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }], description: "Registration closes at this time during the countdown" },
+      minPlayers: { type: 'integer' },
+      totalPlayers: { type: 'integer' }
+    },
+    required: ["roomId", "phase", "previousPhase", "changedAt", "endsAt"]
+  },
+  room_closed: { description: "The room was closed", properties: { roomId: { type: 'string' } }, required: ["roomId"] },
+  patterns_changed: { description: "Winning patterns changed", properties: { patterns: LIST_SCHEMA }, required: ["patterns"] },
+  scheduled_game: {
+    description: "The room is selling cards for its next scheduled game",
+    properties: { game: OBJECT_SCHEMA, prizePool: { type: 'integer' } },
+    required: ["game"]
+  },
+  prize_rules_changed: {
+    description: "Prize rules changed",
+    properties: { prizeRules: OBJECT_SCHEMA, prizePool: { type: 'integer' }, jackpot: { type: 'integer' } },
+    required: ["prizeRules"]
+  },
+  claim_rules_changed: { description: "Claim rules changed", properties: { claimRules: OBJECT_SCHEMA }, required: ["claimRules"] },
+  call_pace_changed: {
+    description: "Calling speed changed; a running game uses it from the next ball",
+    properties: { callPace: OBJECT_SCHEMA, nextCallAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] } },
+    required: ["callPace"]
+  },
+  chat_message: {
+    description: "Chat or system message in the room",
+    properties: { playerId: { type: 'string' }, playerName: { type: 'string' }, message: { type: 'string' }, timestamp: TIMESTAMP_SCHEMA },
+    required: ["playerId", "playerName", "message", "timestamp"]
+  },
+  admin_connected: {
+    description: "Admin socket ready",
+    properties: { username: { type: 'string' }, role: { type: 'string' }, rooms: LIST_SCHEMA, gameLog: { type: 'array', items: { type: 'string' } } },
+    required: ["username", "role", "rooms"]
+  },
+  admin_action_result: {
+    description: "Outcome of an admin message; every admin request gets one",
+    properties: {
+      action: { type: 'string' },
+      success: { type: 'boolean' },
+      code: { type: 'string', enum: ERROR_CODES, description: "Set when success is false" },
+      message: { type: 'string' },
+      roomId: { type: 'string' }
+    },
+    required: ["action", "success"]
+  },
+  admin_rooms: { description: "Every room", properties: { rooms: LIST_SCHEMA }, required: ["rooms"] },
+  admin_stats: { description: "Room or server totals", properties: { roomId: { type: 'string' }, gameState: OBJECT_SCHEMA }, required: ["gameState"] },
+  admin_patterns: { description: "Registered patterns", properties: { roomId: { type: 'string' }, active: { type: 'array', items: { type: 'string' } }, patterns: LIST_SCHEMA }, required: ["patterns"] },
+  admin_withdrawals: { description: "Withdrawals", properties: { status: { type: 'string' }, withdrawals: LIST_SCHEMA }, required: ["withdrawals"] },
+  admin_deposits: { description: "Deposits", properties: { deposits: LIST_SCHEMA }, required: ["deposits"] },
+  admin_statement: { description: "A player's statement", properties: { phone: PHONE_SCHEMA, entries: LIST_SCHEMA }, required: ["entries"] },
+  admin_reconciliation: { description: "Ledger reconciliation", properties: { report: OBJECT_SCHEMA }, required: ["report"] },
+  admin_users: { description: "Admin accounts", properties: { users: LIST_SCHEMA }, required: ["users"] },
+  admin_clients: { description: "Throttled client addresses", properties: { clients: LIST_SCHEMA }, required: ["clients"] },
+  claim_review_admin: {
+    description: "A win is held: the claimed cards with their marks and the numbers called",
+    properties: { roomId: { type: 'string' }, review: OBJECT_SCHEMA },
+    required: ["roomId", "review"]
+  },
+  admin_schedules: { description: "Session plans", properties: { sessions: LIST_SCHEMA }, required: ["sessions"] },
+  schedule_updated_admin: { description: "A session plan was loaded or one of its games moved on", properties: { session: OBJECT_SCHEMA }, required: ["session"] },
+  room_created_admin: { description: "A room was opened", properties: { room: OBJECT_SCHEMA }, required: ["room"] },
+  room_closed_admin: { description: "A room was closed", properties: { roomId: { type: 'string' } }, required: ["roomId"] },
+  game_started_admin: {
+    description: "A game began, with the prize breakdown",
+    properties: { roomId: { type: 'string' }, gameId: { type: 'string' }, prizeBreakdown: OBJECT_SCHEMA, players: LIST_SCHEMA },
+    required: ["roomId", "gameId"]
+  },
+  game_stopped_admin: { description: "A game was stopped", properties: { roomId: { type: 'string' } }, required: ["roomId"] },
+  game_reset_admin: { description: "A room was reset", properties: { roomId: { type: 'string' } }, required: ["roomId"] },
+  phase_changed_admin: {
+    description: "A room moved to another phase",
+    properties: { roomId: { type: 'string' }, phase: PHASE_SCHEMA, previousPhase: PHASE_SCHEMA, endsAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] } },
+    required: ["roomId", "phase", "previousPhase"]
+  },
+  number_called_admin: {
+    description: "A ball was drawn",
+    properties: { roomId: { type: 'string' }, number: { type: 'integer' }, display: { type: 'string' }, totalCalled: { type: 'integer' }, nextCallAt: { anyOf: [TIMESTAMP_SCHEMA, { type: 'null' }] } },
+    required: ["roomId", "number"]
+  },
+  winner_admin: {
+    description: "A stage was won",
+    properties: { roomId: { type: 'string' }, player: OBJECT_SCHEMA, prize: { type: 'integer' }, winners: LIST_SCHEMA, stage: { type: 'string' } },
+    required: ["roomId", "winners"]
+  },
+  false_claim_admin: {
+    description: "A player made a false claim",
+    properties: { roomId: { type: 'string' }, playerId: { type: 'string' }, playerName: { type: 'string' }, falseClaims: { type: 'integer' }, penalty: { type: 'string' } },
+    required: ["roomId", "playerId", "penalty"]
+  },
+  player_registered_admin: {
+    description: "A player joined a room",
+    properties: { roomId: { type: 'string' }, player: OBJECT_SCHEMA, totalPlayers: { type: 'integer' }, prizePool: { type: 'integer' } },
+    required: ["roomId", "player"]
+  },
+  player_reconnected_admin: {
+    description: "A player came back",
+    properties: { roomId: { type: 'string' }, playerId: { type: 'string' }, playerName: { type: 'string' } },
+    required: ["roomId", "playerId"]
+  },
+  player_disconnected_admin: {
+    description: "A player's socket closed",
+    properties: { roomId: { type: 'string' }, playerId: { type: 'string' }, playerName: { type: 'string' }, totalPlayers: { type: 'integer' } },
+    required: ["roomId", "playerId"]
+  },
+  player_kicked_admin: {
+    description: "A player was kicked",
+    properties: { roomId: { type: 'string' }, playerId: { type: 'string' }, playerName: { type: 'string' } },
+    required: ["roomId", "playerId"]
+  },
+  player_inactive_admin: {
+    description: "An idle player was removed",
+    properties: { roomId: { type: 'string' }, playerId: { type: 'string' }, playerName: { type: 'string' }, reason: { type: 'string' } },
+    required: ["roomId", "playerId"]
+  },
+  chat_message_admin: {
+    description: "Chat in a room",
+    properties: { roomId: { type: 'string' }, playerId: { type: 'string' }, playerName: { type: 'string' }, message: { type: 'string' }, timestamp: TIMESTAMP_SCHEMA },
+    required: ["roomId", "message"]
+  },
+  withdrawal_requested_admin: { description: "A withdrawal needs review", properties: { withdrawal: OBJECT_SCHEMA }, required: ["withdrawal"] },
+  withdrawal_updated_admin: { description: "A withdrawal moved on", properties: { withdrawal: OBJECT_SCHEMA }, required: ["withdrawal"] },
+  deposit_updated_admin: { description: "A deposit settled or failed", properties: { deposit: OBJECT_SCHEMA }, required: ["deposit"] },
+  client_throttled_admin: { description: "A client address is being throttled", properties: { client: OBJECT_SCHEMA }, required: ["client"] },
+  client_banned_admin: { description: "A client address was banned for flooding", properties: { client: OBJECT_SCHEMA }, required: ["client"] }
+};
+
+type ClientMessageType = keyof typeof CLIENT_MESSAGES;
+type AdminMessageType = keyof typeof ADMIN_MESSAGES;
+type MessageOf<D extends { properties: object; required: readonly string[] }, T extends string> =
+  { type: T; v?: number; requestId?: string } & ObjectFromSchema<D['properties'], D['required'][number]>;
+type ClientMessage<T extends ClientMessageType> = MessageOf<typeof CLIENT_MESSAGES[T], T>;
+type AdminMessage<T extends AdminMessageType> = MessageOf<typeof ADMIN_MESSAGES[T], T>;
+type AnyClientMessage = { [T in ClientMessageType]: ClientMessage<T> }[ClientMessageType];
+type AnyAdminMessage = { [T in AdminMessageType]: AdminMessage<T> }[AdminMessageType];
+type ScheduledGameInput = AdminMessage<'admin_load_schedule'>['games'][number];
+
+// Checks one value against a schema. Form-style input is accepted: numeric strings become
+// numbers and empty strings count as missing, since older clients send raw input values.
+function validateSchema(schema: JsonSchema, value: unknown, path: string): { success: boolean; value?: unknown; error?: ProtocolError } {
+  const invalid = (message: string) => ({ success: false, error: { code: 'INVALID_FIELD' as const, message: `${path} ${message}`, field: path } });
+  
+  if (schema.anyOf) {
+    for (const option of schema.anyOf) {
+      const result = validateSchema(option, value, path);
+      if (result.success) return result;
     }
-    if (rowComplete) return true;
+    return invalid("has the wrong type");
   }
   
-  // Check columns
-  for (let col = 0; col < gridSize; col++) {
-    let colComplete = true;
-    for (let row = 0; row < gridSize; row++) {
-      const index = row * gridSize + col;
-      if (index === 12) continue;
-      if (!markedSet.has(boardNumbers[index])) {
-        colComplete = false;
-        break;
+  switch (schema.type) {
+    case 'null':
+      return value === null ? { success: true, value } : invalid("must be null");
+      
+    case 'boolean':
+      return typeof value === 'boolean' ? { success: true, value } : invalid("must be true or false");
+      
+    case 'string': {
+      const text = typeof value === 'number' ? String(value) : value;
+      if (typeof text !== 'string') return invalid("must be a string");
+      if (schema.minLength !== undefined && text.length < schema.minLength) return invalid(`must be at least ${schema.minLength} characters`);
+      if (schema.maxLength !== undefined && text.length > schema.maxLength) return invalid(`must be at most ${schema.maxLength} characters`);
+      if (schema.pattern && !new RegExp(schema.pattern).test(text)) return invalid("has the wrong format");
+      if (schema.enum && !schema.enum.includes(text)) return invalid(`must be one of ${schema.enum.join(', ')}`);
+      return { success: true, value: text };
+    }
+    
+    case 'integer':
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return invalid("must be a number");
+      if (schema.type === 'integer' && !Number.isInteger(number)) return invalid("must be a whole number");
+      if (schema.minimum !== undefined && number < schema.minimum) return invalid(`must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && number > schema.maximum) return invalid(`must be at most ${schema.maximum}`);
+      return { success: true, value: number };
+    }
+    
+    case 'array': {
+      if (!Array.isArray(value)) return invalid("must be a list");
+      if (schema.minItems !== undefined && value.length < schema.minItems) return invalid(`needs at least ${schema.minItems} items`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return invalid(`allows at most ${schema.maxItems} items`);
+      const items: unknown[] = [];
+      for (const [index, item] of value.entries()) {
+        const result = schema.items ? validateSchema(schema.items, item, `${path}[${index}]`) : { success: true, value: item };
+        if (!result.success) return result;
+        items.push(result.value);
       }
+      return { success: true, value: items };
     }
-    if (colComplete) return true;
-  }
-  
-  // Check diagonals
-  let diag1Complete = true;
-  for (let i = 0; i < gridSize; i++) {
-    const index = i * gridSize + i;
-    if (index === 12) continue;
-    if (!markedSet.has(boardNumbers[index])) {
-      diag1Complete = false;
-      break;
+    
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return invalid("must be an object");
+      const source = value as Record<string, unknown>;
+      // Unknown fields pass through untouched so newer clients can talk to older servers
+      const output: Record<string, unknown> = { ...source };
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        const field = path ? `${path}.${key}` : key;
+        if (source[key] === undefined || source[key] === '') {
+          delete output[key];
+          if (schema.required?.includes(key)) {
+            return { success: false, error: { code: 'MISSING_FIELD', message: `${field} is required`, field } };
+          }
+          continue;
+        }
+        const result = validateSchema(property, source[key], field);
+        if (!result.success) return result;
+        output[key] = result.value;
+      }
+      return { success: true, value: output };
     }
   }
-  if (diag1Complete) return true;
   
-  let diag2Complete = true;
-  for (let i = 0; i < gridSize; i++) {
-    const index = i * gridSize + (gridSize - 1 - i);
-    if (index === 12) continue;
-    if (!markedSet.has(boardNumbers[index])) {
-      diag2Complete = false;
-      break;
-    }
+  return { success: true, value };
+}
+
+// Turns a raw socket frame into a validated message of one of the given types
+function parseMessage<T>(definitions: Record<string, { properties: Record<string, JsonSchema>; required: readonly string[] }>, raw: string): { success: boolean; message?: T; requestId?: string; error?: ProtocolError } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { success: false, error: { code: 'MALFORMED_JSON', message: "Message is not valid JSON" } };
   }
-  if (diag2Complete) return true;
   
-  // Check four corners (positions 0, 4, 20, 24 in 5x5 grid)
-  const corners = [0, 4, 20, 24];
-  if (corners.every(index => markedSet.has(boardNumbers[index]))) {
-    return true;
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed) || typeof (parsed as Record<string, unknown>).type !== 'string') {
+    return { success: false, error: { code: 'INVALID_MESSAGE', message: "Message must be an object with a type" } };
   }
+  const data = parsed as Record<string, unknown> & { type: string };
   
-  // Check full house (all numbers except FREE)
-  const allCells = boardNumbers.filter((_, index) => index !== 12);
-  if (allCells.every(num => markedSet.has(num))) {
-    return true;
+  if (data.v !== undefined && (typeof data.v !== 'number' || !Number.isInteger(data.v) || data.v < MIN_PROTOCOL_VERSION || data.v > PROTOCOL_VERSION)) {
+    return {
+      success: false,
+      error: { code: 'UNSUPPORTED_VERSION', message: `Protocol version ${data.v} is not supported (${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})` }
+    };
   }
   
-  return false;
-}
-
-function check90BallPattern(markedSet: Set<number>): boolean {
-  // 90-ball has 3 rows, check for one line, two lines, or full house
-  // Simplified check - in reality would need board layout
-  const markedCount = markedSet.size;
+  // Later failures still carry the requestId so the client knows which request was refused
+  let requestId: string | undefined;
+  if (data.requestId !== undefined) {
+    const result = validateSchema(REQUEST_ID_SCHEMA, data.requestId, "requestId");
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    requestId = result.value as string;
+    data.requestId = requestId;
+  }
   
-  // For demo purposes: one line = 5 numbers, two lines = 10, full house = 15
-  if (markedCount >= 15) return true; // Full house
-  if (markedCount >= 10) return true; // Two lines
-  if (markedCount >= 5) return true;  // One line
+  const definition = Object.hasOwn(definitions, data.type) ? definitions[data.type] : undefined;
+  if (!definition) {
+    return { success: false, requestId, error: { code: 'UNKNOWN_MESSAGE_TYPE', message: `Unknown message type: ${data.type}` } };
+  }
   
-  return false;
-}
-
-function check30BallPattern(markedSet: Set<number>): boolean {
-  // 30-ball is usually full house only (all 9 numbers)
-  return markedSet.size >= 9;
+  const result = validateSchema({ type: 'object', properties: definition.properties, required: definition.required }, data, "");
+  return result.success
+    ? { success: true, message: result.value as T, requestId }
+    : { success: false, requestId, error: result.error };
 }
 
-function checkPatternBingo(markedSet: Set<number>, boardNumbers: number[]): boolean {
-  // For pattern bingo, we could have specific patterns
-  // For now, check for X pattern
-  const gridSize = 5;
-  const xPattern = [
-    0,  // top-left
-    6,  // center-left
-    12, // center (FREE)
-    18, // center-right
-    24  // bottom-right
-  ];
-  
-  return xPattern.every(index => {
-    if (index === 12) return true; // FREE space always counts
-    return markedSet.has(boardNumbers[index]);
-  });
+// Every outgoing message carries the protocol version
+function encodeMessage(message: Record<string, unknown>): string {
+  return JSON.stringify({ v: PROTOCOL_VERSION, ...message });
 }
 
-function checkCoverallPattern(markedSet: Set<number>, boardNumbers: number[]): boolean {
-  // Coverall requires all numbers to be marked
-  return boardNumbers.every(num => markedSet.has(num));
+// Replies echo the requestId of the message they answer so clients can match them up
+function replyTo(socket: WebSocket | undefined, request: { requestId?: string }, message: Record<string, unknown>) {
+  socket?.send(encodeMessage(request.requestId === undefined ? message : { ...message, requestId: request.requestId }));
 }
 
-function declareWinner(player: Player) {
-  if (gameState.winner) return; // Already have a winner
-  
-  player.isWinner = true;
-  gameState.winner = player;
-  
-  const prize = calculatePrize(player.stake, gameState.players.size);
-  player.balance += prize;
-  player.totalWon += prize;
-  gameState.totalPaidOut += prize;
-  
-  logEvent(`🎉 WINNER: ${player.name} won ${prize} Birr!`);
-  
-  // Broadcast winner
-  broadcastToPlayers({
-    type: "winner",
-    playerId: player.id,
-    playerName: player.name,
-    prize: prize,
-    pattern: "BINGO!",
-    timestamp: new Date().toISOString()
-  });
-  
-  // Notify admins
-  notifyAdmins({
-    type: "winner_admin",
-    player: {
-      id: player.id,
-      name: player.name,
-      phone: player.phone,
-      boardType: player.boardType,
-      boardNumber: player.boardNumber,
-      stake: player.stake
-    },
-    prize: prize,
-    calledNumbers: gameState.calledNumbers.length
+function getProtocolJsonSchema() {
+  const toDefinitions = (prefix: string, messages: Record<string, { description: string; properties: Record<string, JsonSchema>; required: readonly string[] }>) =>
+    Object.fromEntries(Object.entries(messages).map(([type, definition]) => [`${prefix}.${type}`, {
+      type: 'object',
+      description: definition.description,
+      properties: {
+        type: { const: type },
+        v: { type: 'integer', minimum: MIN_PROTOCOL_VERSION, maximum: PROTOCOL_VERSION },
+        requestId: REQUEST_ID_SCHEMA,
+        ...definition.properties
+      },
+      required: ["type", ...definition.required]
+    }]));
+  const union = (prefix: string, messages: object) => ({
+    oneOf: Object.keys(messages).map(type => ({ $ref: `#/definitions/${prefix}.${type}` }))
   });
   
-  // Stop auto-calling
-  stopAutoCalling();
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: "bingo-protocol",
+    title: "Bingo WebSocket protocol",
+    version: PROTOCOL_VERSION,
+    minVersion: MIN_PROTOCOL_VERSION,
+    definitions: {
+      ...toDefinitions("client", CLIENT_MESSAGES),
+      ...toDefinitions("admin", ADMIN_MESSAGES),
+      ...toDefinitions("server", SERVER_MESSAGES),
+      ClientMessage: union("client", CLIENT_MESSAGES),
+      AdminMessage: union("admin", ADMIN_MESSAGES),
+      ServerMessage: union("server", SERVER_MESSAGES)
+    }
+  };
 }
 
 // ============ WEBSOCKET HANDLERS ============
-async function handleWebSocket(socket: WebSocket, request: Request) {
+async function handleWebSocket(socket: WebSocket, request: Request, ip: string) {
   const url = new URL(request.url);
-  const isAdmin = url.searchParams.get("admin") === CONFIG.ADMIN_KEY;
   
-  if (isAdmin) {
-    await handleAdminConnection(socket);
+  // Admin sockets are opened with a one-time ticket from /api/admin/ws-ticket
+  if (url.searchParams.has("ticket")) {
+    const admin = redeemAdminTicket(url.searchParams.get("ticket"));
+    if (!admin) {
+      socket.onopen = () => socket.close(4001, "Invalid or expired ticket");
+      return;
+    }
+    await handleAdminConnection(socket, admin.user, admin.session);
     return;
   }
   
-  await handlePlayerConnection(socket, request);
+  await handlePlayerConnection(socket, request, ip);
 }
 
-async function handleAdminConnection(socket: WebSocket) {
+async function handleAdminConnection(socket: WebSocket, user: AdminUser, session: AdminSession) {
   const adminConn: AdminConnection = {
     ws: socket,
-    lastActive: new Date()
+    lastActive: new Date(),
+    username: user.username,
+    role: user.role,
+    sessionId: session.id
   };
   
   adminConnections.add(adminConn);
   
-  logEvent("Admin connected");
+  logEvent(`Admin connected: ${user.username} (${user.role})`);
   
-  // Send initial state
-  socket.send(JSON.stringify({
-    type: "admin_connected",
-    gameState: {
-      gameActive: gameState.gameActive,
-      calledNumbers: gameState.calledNumbers,
-      currentNumber: gameState.currentNumber,
-      currentDisplay: gameState.currentDisplay,
-      startedAt: gameState.startedAt?.toISOString(),
-      winner: gameState.winner ? {
-        id: gameState.winner.id,
-        name: gameState.winner.name,
-        prize: calculatePrize(gameState.winner.stake, gameState.players.size)
-      } : null,
-      totalPlayers: gameState.players.size,
-      prizePool: gameState.prizePool,
-      totalCollected: gameState.totalCollected,
-      totalPaidOut: gameState.totalPaidOut,
-      players: Array.from(gameState.players.values()).map(p => ({
-        id: p.id,
-        name: p.name,
-        phone: p.phone,
-        boardType: p.boardType,
-        boardNumber: p.boardNumber,
-        stake: p.stake,
-        balance: p.balance,
-        totalWon: p.totalWon,
-        isOnline: p.isOnline,
-        markedNumbers: p.markedNumbers.length
-      }))
-    },
-    chatHistory: chatHistory.slice(-50),
-    gameLog: gameLog.slice(-100)
-  }));
+  // Send initial state once the socket is open
+  socket.onopen = () => {
+    socket.send(encodeMessage({
+      type: "admin_connected",
+      username: user.username,
+      role: user.role,
+      rooms: Array.from(rooms.values()).map(getAdminRoomState),
+      gameLog: gameLog.slice(-100)
+    }));
+  };
   
   // Handle admin messages
-  socket.onmessage = (event) => {
+  socket.onmessage = async (event) => {
     adminConn.lastActive = new Date();
+    const parsed = parseMessage<AnyAdminMessage>(ADMIN_MESSAGES, event.data);
     
     try {
-      const data = JSON.parse(event.data);
+      if (!getAdminSession(adminConn.sessionId)) {
+        socket.close(4001, "Session expired");
+        adminConnections.delete(adminConn);
+        return;
+      }
+      
+      if (!parsed.success) {
+        replyTo(socket, parsed, { type: "error", ...parsed.error });
+        return;
+      }
+      const data = parsed.message!;
+      const room = "roomId" in data && data.roomId ? rooms.get(data.roomId) : undefined;
+      
+      const auditTarget = getAuditTarget(data, room, adminConn.username);
+      
+      if (!isAdminActionAllowed(adminConn.role, data.type)) {
+        const message = `The ${adminConn.role} role cannot do that`;
+        recordAudit({
+          actor: adminConn.username,
+          role: adminConn.role,
+          action: data.type?.toString() ?? "unknown",
+          target: auditTarget,
+          details: getAuditDetails(data),
+          success: false,
+          message
+        });
+        replyTo(socket, data, {
+          type: "admin_action_result",
+          action: data.type.replace(/^admin_/, ''),
+          success: false,
+          code: "FORBIDDEN",
+          message
+        });
+        return;
+      }
+      
+      if (ROOM_SCOPED_ADMIN_ACTIONS.includes(data.type) && !room) {
+        replyTo(socket, data, {
+          type: "admin_action_result",
+          action: data.type.replace(/^admin_/, ''),
+          success: false,
+          code: "ROOM_NOT_FOUND",
+          message: "Room not found"
+        });
+        return;
+      }
+      
+      // Every reply passes through here so the audit entry can record the outcome
+      let outcome: AdminReply | undefined;
+      const reply = (message: AdminReply) => {
+        outcome = message;
+        replyTo(socket, data, message);
+      };
+      const before = getAuditSnapshot(auditTarget);
+      const gameId = getAuditGameId(auditTarget);
       
       switch (data.type) {
         case "admin_call_number":
-          const result = callNumber();
-          socket.send(JSON.stringify({
+          const result = callNumber(room!);
+          reply({
             type: "admin_action_result",
             action: "call_number",
+            roomId: room!.id,
             ...result
-          }));
+          });
           break;
           
         case "admin_start_game":
-          const startResult = startGame();
-          socket.send(JSON.stringify({
+          const startResult = startGame(room!);
+          reply({
             type: "admin_action_result",
             action: "start_game",
+            roomId: room!.id,
             ...startResult
-          }));
+          });
           break;
           
         case "admin_stop_game":
-          const stopResult = stopGame();
-          socket.send(JSON.stringify({
+          const stopResult = stopGame(room!);
+          reply({
             type: "admin_action_result",
             action: "stop_game",
+            roomId: room!.id,
             ...stopResult
-          }));
+          });
           break;
           
         case "admin_reset_game":
-          const resetResult = resetGame();
-          socket.send(JSON.stringify({
+          const resetResult = resetGame(room!);
+          reply({
             type: "admin_action_result",
             action: "reset_game",
+            roomId: room!.id,
             ...resetResult
-          }));
+          });
+          break;
+          
+        case "admin_pause_game":
+          const pauseResult = pauseGame(room!, data.reason);
+          reply({
+            type: "admin_action_result",
+            action: "pause_game",
+            roomId: room!.id,
+            ...pauseResult
+          });
+          break;
+          
+        case "admin_resume_game":
+          const resumeResult = resumeGame(room!);
+          reply({
+            type: "admin_action_result",
+            action: "resume_game",
+            roomId: room!.id,
+            ...resumeResult
+          });
+          break;
+          
+        case "admin_confirm_claim":
+          const confirmResult = confirmClaimReview(room!, adminConn.username);
+          reply({
+            type: "admin_action_result",
+            action: "confirm_claim",
+            roomId: room!.id,
+            ...confirmResult
+          });
+          break;
+          
+        case "admin_reject_claim":
+          const rejectClaimResult = rejectClaimReview(room!, adminConn.username, data.reason);
+          reply({
+            type: "admin_action_result",
+            action: "reject_claim",
+            roomId: room!.id,
+            ...rejectClaimResult
+          });
+          break;
+          
+        case "admin_set_call_pace":
+          const paceResult = setCallPace(room!, data);
+          reply({
+            type: "admin_action_result",
+            action: "set_call_pace",
+            roomId: room!.id,
+            ...paceResult
+          });
+          break;
+          
+        case "admin_create_room":
+          const createResult = createRoomFromAdmin(data);
+          reply({
+            type: "admin_action_result",
+            action: "create_room",
+            ...createResult
+          });
+          break;
+          
+        case "admin_list_rooms":
+          reply({
+            type: "admin_rooms",
+            rooms: Array.from(rooms.values()).map(getAdminRoomState)
+          });
+          break;
+          
+        case "admin_close_room":
+          const closeResult = closeRoom(room!);
+          reply({
+            type: "admin_action_result",
+            action: "close_room",
+            roomId: data.roomId,
+            ...closeResult
+          });
+          break;
+          
+        case "admin_kick_player": {
+          const found = findPlayer(data.playerId);
+          if (!found) {
+            reply({
+              type: "admin_action_result",
+              action: "kick_player",
+              success: false,
+              code: "PLAYER_NOT_FOUND",
+              message: "Player not found"
+            });
+            break;
+          }
+          
+          const { room: playerRoom, player } = found;
+          playerRoom.players.delete(data.playerId);
+          revokeSessions({ playerId: player.id }, "kicked by admin");
+          // Stakes already in play stay in the pool
+          if (player.stakeRefundable) {
+            refundStake(playerRoom, player);
+            playerRoom.totalCollected -= getPlayerStake(player);
+          }
+          refreshPrizePool(playerRoom);
+          saveRoom(playerRoom);
+          checkCountdown(playerRoom);
+          logEvent(`[${playerRoom.id}] Admin kicked player: ${player.name}`);
+          
+          broadcastToPlayers(playerRoom, {
+            type: "player_left",
+            playerId: data.playerId,
+            totalPlayers: playerRoom.players.size
+          });
+          
+          notifyAdmins({
+            type: "player_kicked_admin",
+            roomId: playerRoom.id,
+            playerId: data.playerId,
+            playerName: player.name
+          });
+          
+          reply({
+            type: "admin_action_result",
+            action: "kick_player",
+            roomId: playerRoom.id,
+            success: true,
+            message: `Kicked ${player.name}`
+          });
+          break;
+        }
+        
+        case "admin_revoke_session":
+          const revokeResult = revokeSessionsFromAdmin(data);
+          reply({
+            type: "admin_action_result",
+            action: "revoke_session",
+            ...revokeResult
+          });
+          break;
+          
+        case "admin_broadcast": {
+          const systemMessage: ChatMessage = {
+            playerId: "system",
+            playerName: "SYSTEM",
+            message: data.message,
+            timestamp: new Date(),
+            type: "system"
+          };
+          
+          // Broadcast to one room, or to every room when none is given
+          const targets = room ? [room] : Array.from(rooms.values());
+          for (const target of targets) {
+            target.chatHistory.push(systemMessage);
+            persist(storage.appendChat(target.id, systemMessage), `chat in ${target.id}`);
+            broadcastToPlayers(target, {
+              ...systemMessage,
+              type: "chat_message",
+              timestamp: systemMessage.timestamp.toISOString()
+            });
+          }
+          
+          reply({
+            type: "admin_action_result",
+            action: "broadcast",
+            roomId: room?.id,
+            success: true,
+            message: `Sent to ${targets.length} room${targets.length === 1 ? '' : 's'}`
+          });
+          break;
+        }
+        
+        case "admin_set_pattern":
+          const patternResult = setActivePatterns(room!, data);
+          reply({
+            type: "admin_action_result",
+            action: "set_pattern",
+            roomId: room!.id,
+            ...patternResult
+          });
+          break;
+          
+        case "admin_set_prize_rules":
+          const rulesResult = setPrizeRules(room!, data);
+          reply({
+            type: "admin_action_result",
+            action: "set_prize_rules",
+            roomId: room!.id,
+            ...rulesResult
+          });
+          break;
+          
+        case "admin_set_claim_rules":
+          const claimRulesResult = setClaimRules(room!, data);
+          reply({
+            type: "admin_action_result",
+            action: "set_claim_rules",
+            roomId: room!.id,
+            ...claimRulesResult
+          });
+          break;
+          
+        case "admin_set_lifecycle":
+          const lifecycleResult = setLifecycleRules(room!, data);
+          reply({
+            type: "admin_action_result",
+            action: "set_lifecycle",
+            roomId: room!.id,
+            ...lifecycleResult
+          });
+          break;
+          
+        case "admin_define_pattern":
+          const defineResult = definePattern(data);
+          reply({
+            type: "admin_action_result",
+            action: "define_pattern",
+            ...defineResult
+          });
+          break;
+          
+        case "admin_list_patterns":
+          reply({
+            type: "admin_patterns",
+            roomId: room?.id,
+            active: room ? getActivePatterns(room).map(p => p.name) : null,
+            patterns: Array.from(patternRegistry.values())
+          });
+          break;
+          
+        case "admin_deposit":
+          const depositResult = depositFromAdmin(data);
+          reply({
+            type: "admin_action_result",
+            action: "deposit",
+            phone: data.phone,
+            ...depositResult
+          });
+          break;
+          
+        case "admin_adjust_balance":
+          const adjustResult = adjustBalanceFromAdmin(data);
+          reply({
+            type: "admin_action_result",
+            action: "adjust_balance",
+            phone: data.phone,
+            ...adjustResult
+          });
+          break;
+          
+        case "admin_list_withdrawals":
+          reply({
+            type: "admin_withdrawals",
+            status: data.status ?? null,
+            withdrawals: listWithdrawals(data.status)
+          });
+          break;
+          
+        case "admin_approve_withdrawal":
+          const approveResult = approveWithdrawal(data);
+          reply({
+            type: "admin_action_result",
+            action: "approve_withdrawal",
+            withdrawalId: data.withdrawalId,
+            ...approveResult
+          });
+          break;
+          
+        case "admin_reject_withdrawal":
+          const rejectResult = rejectWithdrawal(data);
+          reply({
+            type: "admin_action_result",
+            action: "reject_withdrawal",
+            withdrawalId: data.withdrawalId,
+            ...rejectResult
+          });
+          break;
+          
+        case "admin_resolve_withdrawal":
+          const resolveResult = resolveWithdrawal(data);
+          reply({
+            type: "admin_action_result",
+            action: "resolve_withdrawal",
+            withdrawalId: data.withdrawalId,
+            ...resolveResult
+          });
+          break;
+          
+        case "admin_list_deposits":
+          reply({
+            type: "admin_deposits",
+            deposits: Array.from(deposits.values())
+              .filter(d => !data.status || d.status === data.status)
+              .map(getDepositSummary)
+          });
+          break;
+          
+        case "admin_get_statement":
+          reply({
+            type: "admin_statement",
+            ...getStatement(data.phone, data.limit ?? 100)
+          });
+          break;
+          
+        case "admin_reconciliation":
+          reply({
+            type: "admin_reconciliation",
+            report: getReconciliationReport()
+          });
+          break;
+          
+        case "admin_list_users":
+          reply({
+            type: "admin_users",
+            users: Array.from(adminUsers.values()).map(getAdminUserSummary)
+          });
+          break;
+          
+        case "admin_create_user":
+          const createUserResult = await createAdminUser(data);
+          reply({
+            type: "admin_action_result",
+            action: "create_user",
+            ...createUserResult
+          });
+          break;
+          
+        case "admin_update_user":
+          const updateUserResult = await updateAdminUser(data);
+          reply({
+            type: "admin_action_result",
+            action: "update_user",
+            ...updateUserResult
+          });
+          break;
+          
+        case "admin_change_password":
+          // Everyone may change their own password; it signs them out of every session
+          const changeResult = await updateAdminUser({ username: adminConn.username, password: data.password });
+          reply({
+            type: "admin_action_result",
+            action: "change_password",
+            success: changeResult.success,
+            code: changeResult.code,
+            message: changeResult.message
+          });
+          break;
+          
+        case "admin_list_clients":
+          reply({
+            type: "admin_clients",
+            clients: getThrottledClients()
+          });
+          break;
+          
+        case "admin_unban_client":
+          const unbanResult = unbanClient(data);
+          reply({
+            type: "admin_action_result",
+            action: "unban_client",
+            ...unbanResult
+          });
+          break;
+          
+        case "admin_load_schedule":
+          const scheduleResult = loadSchedule(data, adminConn.username);
+          reply({
+            type: "admin_action_result",
+            action: "load_schedule",
+            ...scheduleResult
+          });
           break;
           
-        case "admin_kick_player":
-          if (data.playerId) {
-            const player = gameState.players.get(data.playerId);
-            if (player) {
-              gameState.players.delete(data.playerId);
-              gameState.prizePool -= player.stake;
-              logEvent(`Admin kicked player: ${player.name}`);
-              
-              broadcastToPlayers({
-                type: "player_left",
-                playerId: data.playerId,
-                totalPlayers: gameState.players.size
-              });
-              
-              notifyAdmins({
-                type: "player_kicked_admin",
-                playerId: data.playerId,
-                playerName: player.name
-              });
-            }
-          }
+        case "admin_list_schedules":
+          reply({
+            type: "admin_schedules",
+            sessions: Array.from(gameSessions.values()).map(getSessionSummary)
+          });
           break;
           
-        case "admin_broadcast":
-          if (data.message) {
-            const systemMessage: ChatMessage = {
-              playerId: "system",
-              playerName: "SYSTEM",
-              message: data.message,
-              timestamp: new Date(),
-              type: "system"
-            };
-            
-            chatHistory.push(systemMessage);
-            broadcastToPlayers({
-              type: "chat_message",
-              ...systemMessage,
-              timestamp: systemMessage.timestamp.toISOString()
-            });
-          }
+        case "admin_cancel_schedule":
+          const cancelResult = cancelSchedule(data.sessionId);
+          reply({
+            type: "admin_action_result",
+            action: "cancel_schedule",
+            ...cancelResult
+          });
           break;
           
         case "admin_get_stats":
-          socket.send(JSON.stringify({
+          reply({
             type: "admin_stats",
-            gameState: {
-              gameActive: gameState.gameActive,
-              totalPlayers: gameState.players.size,
-              prizePool: gameState.prizePool,
-              totalCollected: gameState.totalCollected,
-              totalPaidOut: gameState.totalPaidOut,
-              calledNumbers: gameState.calledNumbers.length,
-              currentNumber: gameState.currentNumber
-            }
-          }));
+            roomId: room?.id,
+            gameState: room ? {
+              gameActive: room.gameActive,
+              totalPlayers: room.players.size,
+              prizePool: room.prizePool,
+              totalCollected: room.totalCollected,
+              totalPaidOut: room.totalPaidOut,
+              calledNumbers: room.calledNumbers.length,
+              currentNumber: room.currentNumber
+            } : getServerTotals()
+          });
           break;
+          
+        default:
+          return;
+      }
+      
+      if (!UNAUDITED_ADMIN_ACTIONS.includes(data.type)) {
+        // New rooms and sessions only have an id once they exist
+        const target = auditTarget
+          ?? (outcome?.roomId ? { type: 'room', id: outcome.roomId } : null)
+          ?? (outcome?.sessionId ? { type: 'schedule', id: outcome.sessionId } : null);
+        const success = outcome?.success ?? (auditTarget === null || before !== null);
+        recordAudit({
+          actor: adminConn.username,
+          role: adminConn.role,
+          action: data.type,
+          target,
+          gameId: gameId ?? getAuditGameId(target),
+          details: getAuditDetails(data),
+          before,
+          after: getAuditSnapshot(target),
+          success,
+          message: outcome?.message ?? (success ? "Done" : "Target not found")
+        });
       }
     } catch (error) {
       console.error("Error handling admin message:", error);
+      replyTo(socket, parsed, {
+        type: "error",
+        code: "INTERNAL_ERROR",
+        message: "Something went wrong handling that message"
+      });
     }
   };
   
   socket.onclose = () => {
     adminConnections.delete(adminConn);
-    logEvent("Admin disconnected");
+    logEvent(`Admin disconnected: ${adminConn.username}`);
   };
   
   socket.onerror = (error) => {
@@ -753,78 +6905,182 @@ async function handleAdminConnection(socket: WebSocket) {
   };
 }
 
-async function handlePlayerConnection(socket: WebSocket, request: Request) {
-  let playerId: string | null = null;
+function getAdminRoomState(room: Room) {
+  return {
+    ...getRoomSummary(room),
+    calledNumbers: room.calledNumbers,
+    currentNumber: room.currentNumber,
+    currentDisplay: room.currentDisplay,
+    startedAt: room.startedAt?.toISOString(),
+    winner: room.winner ? {
+      id: room.winner.id,
+      name: room.winner.name,
+      prize: room.stageWinners.filter(w => w.player === room.winner).reduce((sum, w) => sum + w.prize, 0)
+    } : null,
+    totalCollected: room.totalCollected,
+    totalPaidOut: room.totalPaidOut,
+    players: Array.from(room.players.values()).map(p => ({
+      id: p.id,
+      name: p.name,
+      phone: p.phone,
+      roomId: p.roomId,
+      boardType: p.boardType,
+      boardNumber: p.cards[0].boardNumber,
+      boardNumbers: p.cards.map(card => card.boardNumber),
+      cards: p.cards.length,
+      stake: p.stake,
+      totalStake: getPlayerStake(p),
+      balance: getBalance(p.phone),
+      totalWon: accounts.get(p.phone)?.totalWon ?? 0,
+      isOnline: p.isOnline,
+      markedNumbers: p.cards.reduce((sum, card) => sum + card.markedNumbers.length, 0)
+    })),
+    chatHistory: room.chatHistory.slice(-50)
+  };
+}
+
+async function handlePlayerConnection(socket: WebSocket, request: Request, ip: string) {
+  trackConnection(socket, ip);
   
   socket.onopen = () => {
     logEvent("Player connected");
   };
   
   socket.onmessage = async (event) => {
+    if (!checkMessageSize(socket, event.data)) {
+      return;
+    }
+    
+    const parsed = parseMessage<AnyClientMessage>(CLIENT_MESSAGES, event.data);
+    
     try {
-      const data = JSON.parse(event.data);
+      // Invalid messages still spend tokens so they can't be used to flood
+      const rate = checkMessageRate(socket, parsed.message?.type ?? "invalid");
+      if (!rate.success) {
+        replyTo(socket, parsed, {
+          type: "error",
+          code: rate.code,
+          message: rate.message,
+          retryAfter: rate.retryAfter
+        });
+        return;
+      }
+      
+      if (!parsed.success) {
+        replyTo(socket, parsed, { type: "error", ...parsed.error });
+        return;
+      }
+      const data = parsed.message!;
+      
+      // Actions run as the socket's session, never as a playerId taken from the payload
+      const playerId = getSocketPlayerId(socket);
+      if (PLAYER_ACTIONS.includes(data.type) && !playerId) {
+        replyTo(socket, data, {
+          type: "error",
+          code: "NOT_AUTHENTICATED",
+          message: "Not authenticated: register or reconnect with your session token"
+        });
+        return;
+      }
       
       switch (data.type) {
+        case "request_code":
+          await handleCodeRequest(data, socket);
+          break;
+          
+        case "verify_code":
+          await handleCodeVerification(data, socket);
+          break;
+          
         case "register":
           await handleRegistration(data, socket);
           break;
           
+        case "deposit":
+          await handleDepositRequest(data, socket);
+          break;
+          
         case "reconnect":
           await handleReconnection(data, socket);
           break;
           
+        case "logout":
+          if (playerId) {
+            revokeSessions({ playerId }, "logged out");
+          }
+          armAuthTimeout(socket);
+          replyTo(socket, data, { type: "logged_out" });
+          break;
+          
         case "mark_number":
-          await handleMarkNumber(data);
+          await handleMarkNumber(data, playerId!);
           break;
           
         case "claim_win":
-          await handleWinClaim(data);
+          await handleWinClaim(data, playerId!);
           break;
           
         case "chat":
-          await handleChatMessage(data);
+          await handleChatMessage(data, playerId!);
           break;
           
         case "withdraw":
-          await handleWithdrawal(data);
+          await handleWithdrawal(data, playerId!);
           break;
           
         case "get_state":
-          await sendGameState(socket);
+          await sendGameState(data, socket, playerId);
+          break;
+          
+        case "get_statement":
+          await handleStatementRequest(data, socket, playerId);
+          break;
+          
+        case "get_withdrawals":
+          await handleWithdrawalList(data, socket, playerId);
           break;
           
         case "ping":
           if (playerId) {
-            const player = gameState.players.get(playerId);
-            if (player) {
-              player.lastActive = new Date();
+            const found = findPlayer(playerId);
+            if (found) {
+              found.player.lastActive = new Date();
             }
           }
-          socket.send(JSON.stringify({ type: "pong" }));
+          replyTo(socket, data, { type: "pong" });
           break;
       }
     } catch (error) {
       console.error("Error handling player message:", error);
-      socket.send(JSON.stringify({
+      replyTo(socket, parsed, {
         type: "error",
-        message: "Invalid message format"
-      }));
+        code: "INTERNAL_ERROR",
+        message: "Something went wrong handling that message"
+      });
     }
   };
   
   socket.onclose = () => {
+    const playerId = getSocketPlayerId(socket);
+    socketSessions.delete(socket);
+    verifiedSockets.delete(socket);
+    releaseConnection(socket);
+    
     if (playerId) {
-      const player = gameState.players.get(playerId);
-      if (player) {
+      const found = findPlayer(playerId);
+      // Sockets replaced by a reconnect no longer resolve to a player
+      if (found) {
+        const { room, player } = found;
         player.isOnline = false;
         player.ws = undefined;
-        logEvent(`Player disconnected: ${player.name}`);
+        logEvent(`[${room.id}] Player disconnected: ${player.name}`);
         
         notifyAdmins({
           type: "player_disconnected_admin",
+          roomId: room.id,
           playerId: playerId,
           playerName: player.name,
-          totalPlayers: gameState.players.size
+          totalPlayers: room.players.size
         });
       }
     }
@@ -835,68 +7091,143 @@ async function handlePlayerConnection(socket: WebSocket, request: Request) {
   };
 }
 
-async function handleRegistration(data: any, socket: WebSocket) {
-  // Validate input
+async function handleRegistration(data: ClientMessage<'register'>, socket: WebSocket): Promise<string | null> {
+  // The schema has checked the shape; a name of only spaces still gets through it
   if (!validateName(data.name)) {
-    socket.send(JSON.stringify({
+    replyTo(socket, data, {
       type: "error",
+      code: "INVALID_NAME",
       message: "Invalid name (2-50 characters required)"
-    }));
-    return;
+    });
+    return null;
   }
   
-  if (!validatePhone(data.phone)) {
-    socket.send(JSON.stringify({
+  if (getVerifiedPhone(socket) !== data.phone) {
+    replyTo(socket, data, {
       type: "error",
-      message: "Invalid phone number (must be 09xxxxxxxx)"
-    }));
-    return;
+      code: "PHONE_NOT_VERIFIED",
+      message: "Verify your phone number with a code before registering"
+    });
+    return null;
   }
   
-  if (!CONFIG.BOARD_TYPES.includes(data.boardType)) {
-    socket.send(JSON.stringify({
+  // Older clients only send a board type, so fall back to that board's default room
+  const room = data.roomId
+    ? rooms.get(data.roomId)
+    : Array.from(rooms.values()).find(r => r.boardType === data.boardType);
+    
+  if (!room) {
+    replyTo(socket, data, {
       type: "error",
-      message: "Invalid board type"
-    }));
-    return;
+      code: data.roomId ? "ROOM_NOT_FOUND" : "INVALID_FIELD",
+      message: data.roomId ? "Room not found" : "Invalid board type"
+    });
+    return null;
+  }
+  
+  const allowed = checkPhaseAction(room, 'register');
+  if (!allowed.success) {
+    replyTo(socket, data, {
+      type: "error",
+      code: allowed.code,
+      message: allowed.message,
+      phase: room.phase
+    });
+    return null;
+  }
+  
+  if (data.boardType && data.boardType !== room.boardType) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "BOARD_TYPE_MISMATCH",
+      message: `Room ${room.name} only accepts ${room.boardType} boards`
+    });
+    return null;
   }
   
   const stake = Math.max(
-    CONFIG.MIN_STAKE,
-    Math.min(CONFIG.MAX_STAKE, parseInt(data.stake) || CONFIG.MIN_STAKE)
+    room.minStake,
+    Math.min(room.maxStake, data.stake || room.minStake)
   );
   
-  const boardNumber = Math.max(1, Math.min(100, parseInt(data.boardNumber) || 1));
+  // Several cards can be bought at once by listing their numbers; the old single boardNumber still works
+  const boardNumbers = [...new Set(data.boardNumbers ?? [data.boardNumber ?? 1])];
+  if (boardNumbers.length > CONFIG.MAX_CARDS_PER_PLAYER) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "TOO_MANY_CARDS",
+      message: `You can play at most ${CONFIG.MAX_CARDS_PER_PLAYER} cards`
+    });
+    return null;
+  }
+  const totalStake = stake * boardNumbers.length;
   
-  // Check if game is full
-  if (gameState.players.size >= CONFIG.MAX_PLAYERS) {
-    socket.send(JSON.stringify({
+  // Check if room is full
+  if (room.players.size >= room.maxPlayers) {
+    replyTo(socket, data, {
       type: "error",
-      message: "Game is full (90 players maximum)"
-    }));
-    return;
+      code: "ROOM_FULL",
+      message: `Room is full (${room.maxPlayers} players maximum)`
+    });
+    return null;
+  }
+  
+  // Check if phone already registered in any room
+  for (const other of rooms.values()) {
+    for (const player of other.players.values()) {
+      if (player.phone === data.phone) {
+        replyTo(socket, data, {
+          type: "error",
+          code: "PHONE_IN_USE",
+          message: "Phone number already registered"
+        });
+        return null;
+      }
+    }
   }
   
-  // Check if phone already registered
-  for (const player of gameState.players.values()) {
-    if (player.phone === data.phone) {
-      socket.send(JSON.stringify({
+  // Check if any of the board numbers is already taken in this room
+  for (const player of room.players.values()) {
+    const taken = player.cards.find(card => boardNumbers.includes(card.boardNumber));
+    if (taken) {
+      replyTo(socket, data, {
         type: "error",
-        message: "Phone number already registered"
-      }));
-      return;
+        code: "BOARD_TAKEN",
+        message: `Board ${taken.boardNumber} for ${room.boardType} is already taken`
+      });
+      return null;
     }
   }
   
-  // Check if board number already taken for this board type
-  for (const player of gameState.players.values()) {
-    if (player.boardType === data.boardType && player.boardNumber === boardNumber) {
-      socket.send(JSON.stringify({
+  // Not enough in the wallet: park the registration until a deposit for the difference confirms
+  const shortfall = totalStake - getBalance(data.phone);
+  if (shortfall > 0) {
+    if (shortfall > CONFIG.PAYMENTS.MAX_DEPOSIT) {
+      replyTo(socket, data, {
         type: "error",
-        message: `Board ${boardNumber} for ${data.boardType} is already taken`
-      }));
-      return;
+        code: "ABOVE_MAXIMUM",
+        message: `Maximum deposit is ${CONFIG.PAYMENTS.MAX_DEPOSIT} Birr`
+      });
+      return null;
     }
+    
+    const amount = Math.min(
+      Math.max(shortfall, CONFIG.PAYMENTS.MIN_DEPOSIT, data.depositAmount ?? 0),
+      CONFIG.PAYMENTS.MAX_DEPOSIT
+    );
+    const result = await initiateDeposit(data.phone, amount, socket, { ...data, roomId: room.id });
+    
+    replyTo(socket, data, result.success && result.deposit ? {
+      type: "deposit_required",
+      shortfall,
+      deposit: getDepositSummary(result.deposit),
+      instructions: result.instructions
+    } : {
+      type: "error",
+      code: result.code,
+      message: result.message
+    });
+    return null;
   }
   
   // Create new player
@@ -905,174 +7236,383 @@ async function handleRegistration(data: any, socket: WebSocket) {
     id: playerId,
     name: data.name.trim(),
     phone: data.phone,
-    boardType: data.boardType,
-    boardNumber: boardNumber,
+    boardType: room.boardType,
+    cards: boardNumbers.map(boardNumber => ({ boardNumber, markedNumbers: [], voided: false })),
     stake: stake,
+    roomId: room.id,
     ws: socket,
-    balance: 0,
-    totalWon: 0,
-    markedNumbers: [],
     joinedAt: new Date(),
     lastActive: new Date(),
     isOnline: true,
-    isWinner: false
+    isWinner: false,
+    stakeRefundable: true,
+    falseClaims: 0,
+    lockedOut: false
   };
   
-  gameState.players.set(playerId, player);
-  gameState.prizePool += stake;
-  gameState.totalCollected += stake;
+  // The stake comes out of the player's wallet and into the room's prize pool
+  const stakeResult = debitStake(room, player);
+  if (!stakeResult.success) {
+    replyTo(socket, data, {
+      type: "error",
+      code: stakeResult.code,
+      message: `${stakeResult.message}: a ${totalStake} Birr stake needs a balance of at least ${totalStake} Birr (you have ${getBalance(player.phone)})`
+    });
+    return null;
+  }
+  
+  room.players.set(playerId, player);
+  room.totalCollected += totalStake;
+  const { session, token } = await issueSession(player, socket);
+  refreshPrizePool(room);
   
-  logEvent(`Player registered: ${player.name} (${player.phone})`);
+  // Accounts outlive registrations, so a returning phone keeps its balance and winnings
+  const account = getAccount(player.phone, player.name);
+  account.name = player.name;
+  saveAccount(account);
+  saveRoom(room);
+  
+  logEvent(`[${room.id}] Player registered: ${player.name} (${player.phone}) with ${player.cards.length} card${player.cards.length > 1 ? 's' : ''}`);
   
   // Send success response
-  socket.send(JSON.stringify({
+  replyTo(socket, data, {
     type: "registered",
     playerId: playerId,
-    boardNumbers: generateBoardNumbers(player.boardType, player.boardNumber),
+    token: token,
+    tokenExpiresAt: session.expiresAt.toISOString(),
+    room: getRoomSummary(room),
+    balance: getBalance(player.phone),
+    boardNumbers: generateBoardNumbers(player.boardType, player.cards[0].boardNumber, room.cardSalt),
+    cards: getCardSummaries(room, player),
     gameState: {
-      gameActive: gameState.gameActive,
-      calledNumbers: gameState.calledNumbers,
-      currentNumber: gameState.currentNumber,
-      currentDisplay: gameState.currentDisplay,
-      totalPlayers: gameState.players.size,
-      prizePool: gameState.prizePool
-    },
-    players: Array.from(gameState.players.values()).map(p => ({
+      gameActive: room.gameActive,
+      phase: room.phase,
+      phaseEndsAt: room.phaseEndsAt?.toISOString() ?? null,
+      nextCallAt: room.nextCallAt?.toISOString() ?? null,
+      calledNumbers: room.calledNumbers,
+      currentNumber: room.currentNumber,
+      currentDisplay: room.currentDisplay,
+      totalPlayers: room.players.size,
+      prizePool: room.prizePool
+    },
+    players: Array.from(room.players.values()).map(p => ({
       id: p.id,
       name: p.name,
       boardType: p.boardType,
-      boardNumber: p.boardNumber,
+      boardNumber: p.cards[0].boardNumber,
+      cards: p.cards.length,
       stake: p.stake
     }))
-  }));
+  });
   
   // Broadcast to other players
-  broadcastToPlayers({
+  broadcastToPlayers(room, {
     type: "player_joined",
     playerId: playerId,
     playerName: player.name,
     boardType: player.boardType,
-    boardNumber: player.boardNumber,
+    boardNumber: player.cards[0].boardNumber,
+    cards: player.cards.length,
     stake: player.stake,
-    totalPlayers: gameState.players.size
+    totalPlayers: room.players.size,
+    prizePool: room.prizePool
   }, playerId);
   
   // Notify admins
   notifyAdmins({
     type: "player_registered_admin",
+    roomId: room.id,
     player: {
       id: playerId,
       name: player.name,
       phone: player.phone,
+      roomId: room.id,
       boardType: player.boardType,
-      boardNumber: player.boardNumber,
-      stake: player.stake
+      boardNumber: player.cards[0].boardNumber,
+      boardNumbers,
+      cards: player.cards.length,
+      stake: player.stake,
+      totalStake
     },
-    totalPlayers: gameState.players.size,
-    prizePool: gameState.prizePool
+    totalPlayers: room.players.size,
+    prizePool: room.prizePool
   });
+  
+  checkCountdown(room);
+  return playerId;
 }
 
-async function handleReconnection(data: any, socket: WebSocket) {
-  const player = gameState.players.get(data.playerId);
+async function handleReconnection(data: ClientMessage<'reconnect'>, socket: WebSocket): Promise<string | null> {
+  const verified = await verifySessionToken(data.token);
   
-  if (!player) {
-    socket.send(JSON.stringify({
+  if (!verified.success) {
+    replyTo(socket, data, {
+      type: "error",
+      code: verified.code,
+      message: verified.message
+    });
+    return null;
+  }
+  
+  const found = findPlayer(verified.session!.playerId);
+  
+  if (!found) {
+    replyTo(socket, data, {
       type: "error",
+      code: "PLAYER_NOT_FOUND",
       message: "Player not found"
-    }));
-    return;
+    });
+    return null;
   }
   
+  return await resumePlayer(found.room, found.player, socket, data);
+}
+
+// Moves a player onto a new socket with a fresh session, after a token reconnect or a phone login
+async function resumePlayer(room: Room, player: Player, socket: WebSocket, data: { requestId?: string }): Promise<string> {
+  // Each reconnect rotates the token, so the one presented here can't be replayed
+  revokeSessions({ playerId: player.id }, "replaced by a new connection");
+  const { session, token } = await issueSession(player, socket);
+  
   player.ws = socket;
   player.isOnline = true;
   player.lastActive = new Date();
   
-  socket.send(JSON.stringify({
+  replyTo(socket, data, {
     type: "reconnected",
     playerId: player.id,
-    boardNumbers: generateBoardNumbers(player.boardType, player.boardNumber),
-    markedNumbers: player.markedNumbers,
+    token: token,
+    tokenExpiresAt: session.expiresAt.toISOString(),
+    room: getRoomSummary(room),
+    boardNumbers: generateBoardNumbers(player.boardType, player.cards[0].boardNumber, room.cardSalt),
+    markedNumbers: player.cards[0].markedNumbers,
+    cards: getCardSummaries(room, player),
     gameState: {
-      gameActive: gameState.gameActive,
-      calledNumbers: gameState.calledNumbers,
-      currentNumber: gameState.currentNumber,
-      currentDisplay: gameState.currentDisplay,
-      totalPlayers: gameState.players.size,
-      prizePool: gameState.prizePool,
-      winner: gameState.winner ? {
-        id: gameState.winner.id,
-        name: gameState.winner.name
-      } : null
-    },
-    balance: player.balance,
-    totalWon: player.totalWon,
-    players: Array.from(gameState.players.values()).map(p => ({
+      gameActive: room.gameActive,
+      phase: room.phase,
+      phaseEndsAt: room.phaseEndsAt?.toISOString() ?? null,
+      nextCallAt: room.nextCallAt?.toISOString() ?? null,
+      calledNumbers: room.calledNumbers,
+      currentNumber: room.currentNumber,
+      currentDisplay: room.currentDisplay,
+      totalPlayers: room.players.size,
+      prizePool: room.prizePool,
+      winner: room.winner ? {
+        id: room.winner.id,
+        name: room.winner.name
+      } : null,
+      stage: getCurrentStage(room).id,
+      stageWinners: getStageWinnersSummary(room)
+    },
+    balance: getBalance(player.phone),
+    totalWon: accounts.get(player.phone)?.totalWon ?? 0,
+    players: Array.from(room.players.values()).map(p => ({
       id: p.id,
       name: p.name,
       boardType: p.boardType,
-      boardNumber: p.boardNumber,
+      boardNumber: p.cards[0].boardNumber,
+      cards: p.cards.length,
       stake: p.stake
     })),
-    chatHistory: chatHistory.slice(-50)
-  }));
+    chatHistory: room.chatHistory.slice(-50)
+  });
   
-  logEvent(`Player reconnected: ${player.name}`);
+  logEvent(`[${room.id}] Player reconnected: ${player.name}`);
   
   notifyAdmins({
     type: "player_reconnected_admin",
+    roomId: room.id,
     playerId: player.id,
     playerName: player.name
   });
+  
+  return player.id;
+}
+
+async function handleCodeRequest(data: ClientMessage<'request_code'>, socket: WebSocket) {
+  const result = await requestOtp(data.phone);
+  
+  replyTo(socket, data, result.success ? {
+    type: "code_sent",
+    phone: data.phone,
+    expiresAt: result.challenge!.expiresAt.toISOString(),
+    resendAfter: new Date(result.challenge!.sentAt.getTime() + CONFIG.OTP.RESEND_INTERVAL).toISOString()
+  } : {
+    type: "error",
+    code: result.code,
+    message: result.message
+  });
+}
+
+async function handleCodeVerification(data: ClientMessage<'verify_code'>, socket: WebSocket) {
+  const phone = data.phone;
+  const result = await verifyOtp(phone, data.code);
+  
+  if (!result.success) {
+    replyTo(socket, data, {
+      type: "error",
+      code: result.code,
+      message: result.message
+    });
+    return;
+  }
+  
+  verifiedSockets.set(socket, phone);
+  const account = result.account!;
+  
+  replyTo(socket, data, {
+    type: "phone_verified",
+    phone,
+    account: {
+      name: account.name,
+      balance: getBalance(phone),
+      totalWon: account.totalWon,
+      gamesPlayed: account.gamesPlayed,
+      memberSince: account.createdAt
+    }
+  });
+  
+  // A returning player who is still seated in a room picks up where they left off
+  for (const room of rooms.values()) {
+    for (const player of room.players.values()) {
+      if (player.phone === phone) {
+        await resumePlayer(room, player, socket, data);
+        return;
+      }
+    }
+  }
 }
 
-async function handleMarkNumber(data: any) {
-  const player = gameState.players.get(data.playerId);
+async function handleMarkNumber(data: ClientMessage<'mark_number'>, playerId: string) {
+  const found = findPlayer(playerId);
+  
+  if (!found || found.player.stakeRefundable) {
+    return;
+  }
+  
+  const { room, player } = found;
+  
+  const allowed = checkPhaseAction(room, 'mark');
+  if (!allowed.success) {
+    replyTo(player.ws, data, {
+      type: "error",
+      code: allowed.code,
+      message: allowed.message,
+      phase: room.phase
+    });
+    return;
+  }
+  
+  if (player.lockedOut) {
+    replyTo(player.ws, data, {
+      type: "error",
+      code: "LOCKED_OUT",
+      message: "You are locked out for the rest of this game"
+    });
+    return;
+  }
   
-  if (!player || !gameState.gameActive || gameState.winner) {
+  // Only called numbers can be daubed, on every card (or the one given) that carries them
+  const number = data.number;
+  const targets = player.cards
+    .filter(card => data.boardNumber === undefined || card.boardNumber === data.boardNumber)
+    .map(card => ({ card, boardNumbers: generateBoardNumbers(player.boardType, card.boardNumber, room.cardSalt) }))
+    .filter(({ boardNumbers }) => boardNumbers.includes(number));
+  if (!room.calledNumbers.includes(number) || targets.length === 0) {
+    replyTo(player.ws, data, {
+      type: "error",
+      code: "NUMBER_NOT_CALLED",
+      message: `Number ${data.number} has not been called or is not on your card`
+    });
     return;
   }
   
-  const number = parseInt(data.number);
-  if (!player.markedNumbers.includes(number)) {
-    player.markedNumbers.push(number);
+  const stageWinners: StageClaim[] = [];
+  for (const { card, boardNumbers } of targets) {
+    if (card.markedNumbers.includes(number)) continue;
+    card.markedNumbers.push(number);
     
-    // Check if this gives them a win
-    const boardNumbers = generateBoardNumbers(player.boardType, player.boardNumber);
-    if (checkWinningPattern(player, boardNumbers)) {
-      declareWinner(player);
+    // In auto mode marking can still complete a pattern; manual mode waits for a claim
+    if (room.claimRules.daubMode === 'auto') {
+      const pattern = checkWinningPattern(room, card.markedNumbers, boardNumbers);
+      if (pattern) {
+        stageWinners.push({ player, card, pattern });
+      }
     }
   }
+  
+  if (stageWinners.length > 0) {
+    declareWinners(room, stageWinners);
+  }
 }
 
-async function handleWinClaim(data: any) {
-  const player = gameState.players.get(data.playerId);
+async function handleWinClaim(data: ClientMessage<'claim_win'>, playerId: string) {
+  const found = findPlayer(playerId);
   
-  if (!player || !gameState.gameActive || gameState.winner) {
+  if (!found || found.player.stakeRefundable) {
     return;
   }
   
-  // Verify the claim
-  const boardNumbers = generateBoardNumbers(player.boardType, player.boardNumber);
-  const hasWon = checkWinningPattern(player, boardNumbers);
+  const { room, player } = found;
   
-  if (hasWon) {
-    declareWinner(player);
-  } else {
-    player.ws?.send(JSON.stringify({
+  const allowed = checkPhaseAction(room, 'claim');
+  if (!allowed.success) {
+    replyTo(player.ws, data, {
       type: "error",
-      message: "You don't have a winning pattern yet"
-    }));
+      code: allowed.code,
+      message: allowed.message,
+      phase: room.phase
+    });
+    return;
+  }
+  
+  const result = submitClaim(room, player);
+  if (result.success) {
+    const outcome = room.claimRules.daubMode === 'auto' ? 'accepted' : 'pending';
+    recordClaim(room, player, outcome, result.claims!.map(claim => claim.card.boardNumber));
+  } else {
+    recordClaim(room, player, result.reason as GameClaimOutcome, [], result.penalty ?? null);
+  }
+  
+  if (room.claimRules.daubMode === 'auto') {
+    // Auto-daub claims are settled on the spot
+    if (!result.success) {
+      replyTo(player.ws, data, {
+        type: "error",
+        code: result.code,
+        message: result.message
+      });
+    }
+  } else if (result.success) {
+    const [first] = result.claims!;
+    replyTo(player.ws, data, {
+      type: "claim_received",
+      pattern: first.pattern.name,
+      patternLabel: first.pattern.label,
+      boardNumbers: result.claims!.map(claim => claim.card.boardNumber),
+      settlesAt: result.settlesAt!.toISOString()
+    });
+  } else {
+    replyTo(player.ws, data, {
+      type: "claim_rejected",
+      code: result.code,
+      reason: result.reason,
+      message: result.message,
+      penalty: result.penalty ?? null,
+      falseClaims: player.falseClaims
+    });
   }
 }
 
-async function handleChatMessage(data: any) {
-  const player = gameState.players.get(data.playerId);
+async function handleChatMessage(data: ClientMessage<'chat'>, playerId: string) {
+  const found = findPlayer(playerId);
   
-  if (!player || !data.message?.trim()) {
+  if (!found || !data.message.trim()) {
     return;
   }
   
+  const { room, player } = found;
+  
   const chatMessage: ChatMessage = {
     playerId: player.id,
     playerName: player.name,
@@ -1081,101 +7621,193 @@ async function handleChatMessage(data: any) {
     type: "chat"
   };
   
-  chatHistory.push(chatMessage);
-  if (chatHistory.length > CONFIG.LOG_RETENTION) {
-    chatHistory.shift();
+  room.chatHistory.push(chatMessage);
+  if (room.chatHistory.length > CONFIG.LOG_RETENTION) {
+    room.chatHistory.shift();
   }
+  persist(storage.appendChat(room.id, chatMessage), `chat in ${room.id}`);
   
-  broadcastToPlayers({
-    type: "chat_message",
+  broadcastToPlayers(room, {
     ...chatMessage,
+    type: "chat_message",
     timestamp: chatMessage.timestamp.toISOString()
   });
   
   notifyAdmins({
-    type: "chat_message_admin",
     ...chatMessage,
+    type: "chat_message_admin",
+    roomId: room.id,
     timestamp: chatMessage.timestamp.toISOString()
   });
 }
 
-async function handleWithdrawal(data: any) {
-  const player = gameState.players.get(data.playerId);
+async function handleWithdrawal(data: ClientMessage<'withdraw'>, playerId: string) {
+  const player = findPlayer(playerId)?.player;
   
   if (!player) return;
   
-  const amount = Math.floor(data.amount || 0);
-  const account = data.account?.toString().trim();
+  const amount = data.amount;
+  const account = data.account.trim();
   
   if (!account) {
-    player.ws?.send(JSON.stringify({
+    replyTo(player.ws, data, {
       type: "error",
+      code: "MISSING_FIELD",
       message: "Account number is required"
-    }));
+    });
     return;
   }
   
   if (amount < 25) {
-    player.ws?.send(JSON.stringify({
+    replyTo(player.ws, data, {
       type: "error",
+      code: "BELOW_MINIMUM",
       message: "Minimum withdrawal is 25 Birr"
-    }));
+    });
     return;
   }
   
-  if (amount > player.balance) {
-    player.ws?.send(JSON.stringify({
+  const result = requestWithdrawal(player, amount, account, data.requestId);
+  
+  if (!result.success) {
+    replyTo(player.ws, data, {
       type: "error",
-      message: "Insufficient balance"
-    }));
+      code: result.code,
+      message: result.message
+    });
+    return;
+  }
+  
+  replyTo(player.ws, data, {
+    type: "withdrawal_requested",
+    withdrawal: getWithdrawalSummary(result.withdrawal!),
+    newBalance: getBalance(player.phone),
+    timestamp: new Date().toISOString()
+  });
+}
+
+async function handleWithdrawalList(data: ClientMessage<'get_withdrawals'>, socket: WebSocket, playerId: string | null) {
+  const player = playerId ? findPlayer(playerId)?.player : undefined;
+  
+  if (!player) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "NOT_AUTHENTICATED",
+      message: "Register or reconnect to see your withdrawals"
+    });
+    return;
+  }
+  
+  replyTo(socket, data, {
+    type: "withdrawals",
+    withdrawals: listWithdrawals().filter(w => w.phone === player.phone)
+  });
+}
+
+async function handleDepositRequest(data: ClientMessage<'deposit'>, socket: WebSocket) {
+  if (getVerifiedPhone(socket) !== data.phone) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "PHONE_NOT_VERIFIED",
+      message: "Verify your phone number with a code before depositing"
+    });
+    return;
+  }
+  
+  const amount = data.amount;
+  if (amount < CONFIG.PAYMENTS.MIN_DEPOSIT) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "BELOW_MINIMUM",
+      message: `Minimum deposit is ${CONFIG.PAYMENTS.MIN_DEPOSIT} Birr`
+    });
     return;
   }
   
-  // Process withdrawal (in production, integrate with payment gateway)
-  player.balance -= amount;
+  if (amount > CONFIG.PAYMENTS.MAX_DEPOSIT) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "ABOVE_MAXIMUM",
+      message: `Maximum deposit is ${CONFIG.PAYMENTS.MAX_DEPOSIT} Birr`
+    });
+    return;
+  }
   
-  logEvent(`Withdrawal processed: ${player.name} - ${amount} Birr to account ${account}`);
+  const result = await initiateDeposit(data.phone, amount, socket);
   
-  player.ws?.send(JSON.stringify({
-    type: "withdrawal_processed",
-    amount: amount,
-    account: account,
-    newBalance: player.balance,
-    timestamp: new Date().toISOString()
-  }));
+  replyTo(socket, data, result.success && result.deposit ? {
+    type: "deposit_initiated",
+    deposit: getDepositSummary(result.deposit),
+    instructions: result.instructions
+  } : {
+    type: "error",
+    code: result.code,
+    message: result.message
+  });
+}
+
+async function handleStatementRequest(data: ClientMessage<'get_statement'>, socket: WebSocket, playerId: string | null) {
+  const player = playerId ? findPlayer(playerId)?.player : undefined;
   
-  notifyAdmins({
-    type: "withdrawal_admin",
-    playerId: player.id,
-    playerName: player.name,
-    amount: amount,
-    account: account,
-    remainingBalance: player.balance
+  if (!player) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "NOT_AUTHENTICATED",
+      message: "Register or reconnect to see your statement"
+    });
+    return;
+  }
+  
+  replyTo(socket, data, {
+    type: "statement",
+    ...getStatement(player.phone, data.limit ?? 100)
   });
 }
 
-async function sendGameState(socket: WebSocket) {
-  socket.send(JSON.stringify({
+async function sendGameState(data: ClientMessage<'get_state'>, socket: WebSocket, playerId: string | null) {
+  // Registered players get their own room, spectators can ask for any room
+  const room = (playerId && findPlayer(playerId)?.room) || rooms.get(data.roomId ?? "");
+  
+  if (!room) {
+    replyTo(socket, data, {
+      type: "error",
+      code: "ROOM_NOT_FOUND",
+      message: "Room not found"
+    });
+    return;
+  }
+  
+  replyTo(socket, data, {
     type: "game_state",
-    gameActive: gameState.gameActive,
-    calledNumbers: gameState.calledNumbers,
-    currentNumber: gameState.currentNumber,
-    currentDisplay: gameState.currentDisplay,
-    totalPlayers: gameState.players.size,
-    prizePool: gameState.prizePool,
-    startedAt: gameState.startedAt?.toISOString(),
-    winner: gameState.winner ? {
-      id: gameState.winner.id,
-      name: gameState.winner.name
-    } : null
-  }));
+    roomId: room.id,
+    gameId: room.gameId,
+    drawCommitment: room.gameId ? gameRecords.get(room.gameId)?.commitment ?? null : null,
+    gameActive: room.gameActive,
+    phase: room.phase,
+    phaseEndsAt: room.phaseEndsAt?.toISOString() ?? null,
+    salesCloseAt: getSalesCloseAt(room)?.toISOString() ?? null,
+    nextCallAt: room.nextCallAt?.toISOString() ?? null,
+    calledNumbers: room.calledNumbers,
+    currentNumber: room.currentNumber,
+    currentDisplay: room.currentDisplay,
+    totalPlayers: room.players.size,
+    prizePool: room.prizePool,
+    startedAt: room.startedAt?.toISOString(),
+    winner: room.winner ? {
+      id: room.winner.id,
+      name: room.winner.name
+    } : null,
+    stage: getCurrentStage(room).id,
+    stageWinners: getStageWinnersSummary(room),
+    jackpot: getJackpot(room)
+  });
 }
 
 // ============ BROADCAST FUNCTIONS ============
-function broadcastToPlayers(message: any, excludePlayerId?: string) {
-  const jsonMessage = JSON.stringify(message);
+function broadcastToPlayers(room: Room, message: any, excludePlayerId?: string) {
+  const jsonMessage = encodeMessage(message);
   
-  for (const player of gameState.players.values()) {
+  for (const player of room.players.values()) {
     if (player.id === excludePlayerId) continue;
     if (player.ws && player.ws.readyState === WebSocket.OPEN) {
       try {
@@ -1188,7 +7820,7 @@ function broadcastToPlayers(message: any, excludePlayerId?: string) {
 }
 
 function notifyAdmins(message: any) {
-  const jsonMessage = JSON.stringify(message);
+  const jsonMessage = encodeMessage(message);
   const now = new Date();
   
   // Clean up stale admin connections
@@ -1215,37 +7847,120 @@ function notifyAdmins(message: any) {
 setInterval(() => {
   const now = new Date();
   
-  // Clean up inactive players
-  for (const [id, player] of gameState.players.entries()) {
-    if (now.getTime() - player.lastActive.getTime() > CONFIG.INACTIVE_TIMEOUT) {
-      gameState.players.delete(id);
-      gameState.prizePool -= player.stake;
-      
-      logEvent(`Removed inactive player: ${player.name}`);
-      
-      broadcastToPlayers({
-        type: "player_left",
-        playerId: id,
-        totalPlayers: gameState.players.size
-      });
-      
-      notifyAdmins({
-        type: "player_inactive_admin",
-        playerId: id,
-        playerName: player.name,
-        reason: "inactive"
-      });
+  for (const room of rooms.values()) {
+    // Clean up inactive players
+    for (const [id, player] of room.players.entries()) {
+      if (now.getTime() - player.lastActive.getTime() > CONFIG.INACTIVE_TIMEOUT) {
+        room.players.delete(id);
+        revokeSessions({ playerId: id }, "inactive");
+        if (player.stakeRefundable) {
+          refundStake(room, player);
+          room.totalCollected -= getPlayerStake(player);
+        }
+        refreshPrizePool(room);
+        saveRoom(room);
+        
+        logEvent(`[${room.id}] Removed inactive player: ${player.name}`);
+        
+        broadcastToPlayers(room, {
+          type: "player_left",
+          playerId: id,
+          totalPlayers: room.players.size
+        });
+        
+        notifyAdmins({
+          type: "player_inactive_admin",
+          roomId: room.id,
+          playerId: id,
+          playerName: player.name,
+          reason: "inactive"
+        });
+      }
+    }
+    
+    // A countdown that lost its players is called off
+    checkCountdown(room);
+  }
+  
+  // Expired sessions can't be used any more, revoked or not
+  for (const session of sessions.values()) {
+    if (new Date(session.expiresAt).getTime() < now.getTime()) {
+      sessions.delete(session.id);
+      persist(storage.deleteSession(session.id), `session ${session.id}`);
+    }
+  }
+  for (const session of adminSessions.values()) {
+    if (new Date(session.expiresAt).getTime() < now.getTime()) {
+      adminSessions.delete(session.id);
+      persist(storage.deleteAdminSession(session.id), `admin session for ${session.username}`);
+    }
+  }
+  for (const [ticket, entry] of adminTickets.entries()) {
+    if (entry.expiresAt < now.getTime()) {
+      adminTickets.delete(ticket);
     }
   }
   
-  // Auto-start game if enough players and not active
-  if (!gameState.gameActive && !gameState.winner && gameState.players.size >= 5) {
-    startGame();
+  // Forget addresses with no sockets, no ban and nothing throttled lately
+  for (const client of clientLimits.values()) {
+    const quietFor = now.getTime() - (client.lastThrottledAt?.getTime() ?? 0);
+    if (client.connections.size === 0 && !isClientBanned(client) && quietFor > CONFIG.RATE_LIMIT.VIOLATION_WINDOW) {
+      clientLimits.delete(client.ip);
+    }
   }
 }, 60 * 1000); // Check every minute
 
+setInterval(runScheduler, CONFIG.SCHEDULE.TICK);
+
 // ============ HTTP SERVER HANDLER ============
-async function handleRequest(request: Request): Promise<Response> {
+const ADMIN_LOGIN_HTML = `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>Admin Login - Bingo Game</title>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background: #1a1a1a; color: white; display: flex; align-items: center; justify-content: center; min-height: 100vh; }
+        form { background: #2d2d2d; padding: 30px; border-radius: 10px; width: 320px; border-top: 4px solid #0d47a1; }
+        h1 { font-size: 1.4em; margin-bottom: 20px; }
+        input { width: 100%; padding: 10px; margin-bottom: 12px; border: 1px solid #444; border-radius: 6px; background: #1a1a1a; color: white; }
+        button { width: 100%; padding: 12px; border: none; border-radius: 6px; font-weight: bold; cursor: pointer; background: #0d47a1; color: white; }
+        #loginError { color: #f44336; margin-top: 12px; min-height: 1em; }
+    </style>
+</head>
+<body>
+    <form onsubmit="login(event)">
+        <h1>🎮 Bingo Admin</h1>
+        <input type="text" id="username" placeholder="Username" autocomplete="username" required>
+        <input type="password" id="password" placeholder="Password" autocomplete="current-password" required>
+        <button type="submit">Log in</button>
+        <p id="loginError"></p>
+    </form>
+    <script>
+        async function login(event) {
+            event.preventDefault();
+            const response = await fetch('/api/admin/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    username: document.getElementById('username').value,
+                    password: document.getElementById('password').value
+                })
+            });
+            if (response.ok) {
+                window.location.reload();
+            } else {
+                document.getElementById('loginError').textContent = (await response.json()).message || 'Login failed';
+            }
+        }
+    </script>
+</body>
+</html>
+`;
+
+async function handleRequest(request: Request, connInfo?: ConnInfo): Promise<Response> {
   const url = new URL(request.url);
   
   // Handle WebSocket upgrade
@@ -1254,8 +7969,17 @@ async function handleRequest(request: Request): Promise<Response> {
       return new Response("Expected WebSocket", { status: 400 });
     }
     
+    // Player sockets are limited per IP; admin sockets carry a ticket instead
+    const ip = getClientIp(request, connInfo);
+    if (!url.searchParams.has("ticket")) {
+      const admission = admitConnection(ip);
+      if (!admission.success) {
+        return new Response(admission.message, { status: admission.status });
+      }
+    }
+    
     const { socket, response } = Deno.upgradeWebSocket(request);
-    handleWebSocket(socket, request);
+    handleWebSocket(socket, request, ip);
     return response;
   }
   
@@ -1273,8 +7997,9 @@ async function handleRequest(request: Request): Promise<Response> {
   if (url.pathname === "/api/health") {
     return new Response(JSON.stringify({
       status: "healthy",
-      players: gameState.players.size,
-      gameActive: gameState.gameActive,
+      rooms: rooms.size,
+      players: getServerTotals().totalPlayers,
+      activeGames: getServerTotals().activeGames,
       uptime: process.uptime()
     }), {
       headers: { "Content-Type": "application/json" }
@@ -1283,37 +8008,281 @@ async function handleRequest(request: Request): Promise<Response> {
   
   if (url.pathname === "/api/stats") {
     return new Response(JSON.stringify({
-      totalPlayers: gameState.players.size,
-      gameActive: gameState.gameActive,
-      calledNumbers: gameState.calledNumbers.length,
-      prizePool: gameState.prizePool,
-      totalCollected: gameState.totalCollected,
-      totalPaidOut: gameState.totalPaidOut,
-      winner: gameState.winner ? gameState.winner.name : null,
-      startedAt: gameState.startedAt?.toISOString()
+      ...getServerTotals(),
+      rooms: Array.from(rooms.values()).map(room => ({
+        ...getRoomSummary(room),
+        totalCollected: room.totalCollected,
+        totalPaidOut: room.totalPaidOut,
+        winner: room.winner ? room.winner.name : null,
+        startedAt: room.startedAt?.toISOString()
+      }))
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (url.pathname === "/api/rooms") {
+    return new Response(JSON.stringify({
+      rooms: Array.from(rooms.values()).map(getRoomSummary)
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (url.pathname === "/api/patterns") {
+    const room = rooms.get(url.searchParams.get("room") ?? "");
+    return new Response(JSON.stringify({
+      active: room ? getPatternSummary(room) : null,
+      patterns: Array.from(patternRegistry.values()).map(p => ({ name: p.name, label: p.label, masks: p.masks }))
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // Upcoming scheduled games, optionally for one room (/api/schedule?room=)
+  if (url.pathname === "/api/schedule") {
+    const roomId = url.searchParams.get("room");
+    const room = roomId ? rooms.get(roomId) : undefined;
+    if (roomId && !room) {
+      return new Response(JSON.stringify({ error: "Room not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    return new Response(JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      games: getUpcomingGames(room)
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // WebSocket message schemas for generating client types
+  if (url.pathname === "/api/protocol") {
+    return new Response(JSON.stringify(getProtocolJsonSchema(), null, 2), {
+      headers: { "Content-Type": "application/schema+json" }
+    });
+  }
+  
+  // Game archive, newest first (/api/games?room=&limit=)
+  if (url.pathname === "/api/games") {
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") ?? "") || 50, 1), CONFIG.GAME_RECORD_RETENTION);
+    return new Response(JSON.stringify({
+      games: listGames(url.searchParams.get("room"), limit)
     }), {
       headers: { "Content-Type": "application/json" }
     });
   }
   
-  if (url.pathname === "/api/admin/login") {
-    const { key } = await request.json();
-    if (key === CONFIG.ADMIN_KEY) {
+  // Game record (/api/games/:id) and ball-by-ball replay of a finished game (/api/games/:id/replay)
+  const gameMatch = url.pathname.match(/^\/api\/games\/([\w-]+)(\/replay)?$/);
+  if (gameMatch) {
+    const record = gameRecords.get(gameMatch[1]);
+    if (!record) {
+      return new Response(JSON.stringify({ error: "Game not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    if (gameMatch[2]) {
+      if (!record.endedAt) {
+        return new Response(JSON.stringify({ error: "Game is still in progress" }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      return new Response(JSON.stringify(getGameReplay(record)), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    return new Response(JSON.stringify(getGameArchive(record)), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // Draw verification (/api/games/:id/verify)
+  const verifyMatch = url.pathname.match(/^\/api\/games\/([\w-]+)\/verify$/);
+  if (verifyMatch) {
+    const record = gameRecords.get(verifyMatch[1]);
+    if (!record) {
+      return new Response(JSON.stringify({ error: "Game not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    return new Response(JSON.stringify(verifyDraw(record)), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // Deck listing (/api/rooms/:roomId/cards) and card preview (/api/rooms/:roomId/cards/:boardNumber)
+  const cardsMatch = url.pathname.match(/^\/api\/rooms\/([\w-]+)\/cards(?:\/(\d+))?$/);
+  if (cardsMatch) {
+    const [, roomId, boardNumberParam] = cardsMatch;
+    const room = rooms.get(roomId);
+    if (!room) {
+      return new Response(JSON.stringify({ error: "Room not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    const boardType = room.boardType;
+    
+    if (boardNumberParam) {
+      const boardNumber = parseInt(boardNumberParam);
+      if (boardNumber < 1 || boardNumber > CONFIG.CARDS_PER_DECK) {
+        return new Response(JSON.stringify({ error: "Invalid board number" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      
       return new Response(JSON.stringify({
+        roomId,
+        boardType,
+        boardNumber,
+        numbers: generateBoardNumbers(boardType, boardNumber, room.cardSalt)
+      }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      roomId,
+      boardType,
+      cards: getDeck(boardType, room.cardSalt)
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // Payment provider webhooks (/api/payments/callback/:provider)
+  const callbackMatch = url.pathname.match(/^\/api\/payments\/callback\/([\w-]+)$/);
+  if (callbackMatch && request.method === "POST") {
+    return await handlePaymentCallback(callbackMatch[1], request);
+  }
+  
+  // Admin login sets an HTTP-only session cookie
+  if (url.pathname === "/api/admin/login" && request.method === "POST") {
+    const body = await request.json().catch(() => ({}));
+    const result = await loginAdmin(body.username?.toString() ?? "", body.password?.toString() ?? "");
+    recordAudit({
+      actor: body.username?.toString().slice(0, 50) ?? "",
+      role: result.user?.role ?? null,
+      action: "admin_login",
+      target: result.user ? { type: 'admin', id: result.user.username } : null,
+      success: result.success,
+      message: result.message
+    });
+    if (!result.success) {
+      return new Response(JSON.stringify({ success: false, message: result.message }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    return new Response(JSON.stringify({
+      success: true,
+      username: result.user!.username,
+      role: result.user!.role,
+      expiresAt: result.session!.expiresAt.toISOString()
+    }), {
+      headers: {
+        "Content-Type": "application/json",
+        "Set-Cookie": adminSessionCookie(request, result.session!.id, CONFIG.ADMIN_AUTH.SESSION_TTL)
+      }
+    });
+  }
+  
+  if (url.pathname.startsWith("/api/admin/")) {
+    const admin = getAdminSessionFromRequest(request);
+    if (!admin) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    if (url.pathname === "/api/admin/logout" && request.method === "POST") {
+      revokeAdminSessions(admin.user.username, admin.session.id);
+      logEvent(`Admin logged out: ${admin.user.username}`);
+      recordAudit({
+        actor: admin.user.username,
+        role: admin.user.role,
+        action: "admin_logout",
+        target: { type: 'admin', id: admin.user.username },
         success: true,
-        token: btoa(`admin_${Date.now()}_${Math.random()}`)
+        message: "Logged out"
+      });
+      return new Response(JSON.stringify({ success: true }), {
+        headers: {
+          "Content-Type": "application/json",
+          "Set-Cookie": adminSessionCookie(request, "", 0)
+        }
+      });
+    }
+    
+    // The admin panel trades its cookie for a one-time ticket to open the WebSocket
+    if (url.pathname === "/api/admin/ws-ticket" && request.method === "POST") {
+      return new Response(JSON.stringify({
+        ...issueAdminTicket(admin.session),
+        username: admin.user.username,
+        role: admin.user.role
       }), {
         headers: { "Content-Type": "application/json" }
       });
     }
-    return new Response(JSON.stringify({ success: false }), { status: 401 });
+    
+    // Audit trail, filtered by actor, action, targetType, targetId, gameId, from, to and limit
+    if (url.pathname === "/api/admin/audit") {
+      if (!isAdminActionAllowed(admin.user.role, "admin_get_audit")) {
+        return new Response(JSON.stringify({ error: "Forbidden" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      return new Response(JSON.stringify(queryAudit(url.searchParams)), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    // Ledger reports (/api/admin/reconciliation, /api/admin/accounts/:phone/statement)
+    if (url.pathname === "/api/admin/reconciliation") {
+      if (!isAdminActionAllowed(admin.user.role, "admin_reconciliation")) {
+        return new Response(JSON.stringify({ error: "Forbidden" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      return new Response(JSON.stringify(getReconciliationReport()), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    const statementMatch = url.pathname.match(/^\/api\/admin\/accounts\/(\d+)\/statement$/);
+    if (statementMatch) {
+      if (!isAdminActionAllowed(admin.user.role, "admin_get_statement")) {
+        return new Response(JSON.stringify({ error: "Forbidden" }), {
+          status: 403,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      const limit = Math.min(500, parseInt(url.searchParams.get("limit") ?? "") || 100);
+      return new Response(JSON.stringify(getStatement(statementMatch[1], limit)), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
   }
   
-  // Admin panel
+  // Admin panel, or the login form when there is no admin session
   if (url.pathname === "/admin") {
-    const adminKey = url.searchParams.get("key");
-    if (adminKey !== CONFIG.ADMIN_KEY) {
-      return new Response("Unauthorized", { status: 401 });
+    if (!getAdminSessionFromRequest(request)) {
+      return new Response(ADMIN_LOGIN_HTML, {
+        headers: { "Content-Type": "text/html" }
+      });
     }
     
     const adminHtml = `
@@ -1355,22 +8324,36 @@ async function handleRequest(request: Request): Promise<Response> {
             .tab-content { display: none; }
             .tab-content.active { display: block; }
             .broadcast-input { width: 100%; padding: 10px; margin: 10px 0; background: #3d3d3d; border: 1px solid #555; color: white; border-radius: 4px; }
+            .review-card { display: inline-block; margin: 10px 20px 10px 0; vertical-align: top; }
+            .review-grid { display: grid; gap: 4px; margin-top: 8px; }
+            .review-cell { padding: 8px; text-align: center; background: #3d3d3d; border-radius: 4px; }
+            .review-cell.called { background: #28a745; }
+            .review-cell.marked:not(.called) { background: #dc3545; }
         </style>
     </head>
     <body>
         <div class="container">
             <div class="header">
                 <h1>🎮 Bingo Game Admin Panel</h1>
-                <p>Real-time monitoring and control</p>
+                <p>Real-time monitoring and control · <span id="adminIdentity"></span>
+                    <button class="btn btn-danger btn-small" onclick="logout()">Log out</button></p>
             </div>
             
             <div class="tabs">
                 <div class="tab active" onclick="showTab('dashboard')">📊 Dashboard</div>
                 <div class="tab" onclick="showTab('players')">👥 Players</div>
+                <div class="tab" onclick="showTab('rooms')">🏠 Rooms</div>
                 <div class="tab" onclick="showTab('controls')">🎮 Controls</div>
+                <div class="tab" onclick="showTab('withdrawals')">💸 Withdrawals</div>
+                <div class="tab" onclick="showTab('audit'); loadAudit()">🛡️ Audit</div>
                 <div class="tab" onclick="showTab('logs')">📝 Logs</div>
             </div>
             
+            <div class="controls">
+                <h3>Room</h3>
+                <select id="roomSelect" class="broadcast-input" onchange="selectRoom(this.value)"></select>
+            </div>
+            
             <div id="dashboardTab" class="tab-content active">
                 <div class="stats-grid">
                     <div class="stat-card">
@@ -1396,76 +8379,334 @@ async function handleRequest(request: Request): Promise<Response> {
                         <div class="stat-value" id="totalCollected">0</div>
                         <div class="stat-label">Total Collected</div>
                     </div>
-                    <div class="stat-card">
-                        <div class="stat-value" id="totalPaidOut">0</div>
-                        <div class="stat-label">Total Paid Out</div>
+                    <div class="stat-card">
+                        <div class="stat-value" id="totalPaidOut">0</div>
+                        <div class="stat-label">Total Paid Out</div>
+                    </div>
+                    <div class="stat-card">
+                        <div class="stat-value" id="currentNumber">-</div>
+                        <div class="stat-label">Current Number</div>
+                    </div>
+                    <div class="stat-card">
+                        <div class="stat-value" id="winner">None</div>
+                        <div class="stat-label">Current Winner</div>
+                    </div>
+                </div>
+                
+                <div class="controls" id="claimReview" style="display: none; border: 2px solid #ffd700;">
+                    <h3>✋ Claim Waiting for Review</h3>
+                    <p>Green cells have been called, red cells are marked but were never called.</p>
+                    <div id="claimReviewCards"></div>
+                    <div class="controls-grid">
+                        <button class="btn btn-success" onclick="confirmClaim()">✅ Confirm &amp; Pay</button>
+                        <button class="btn btn-danger" onclick="rejectClaim()">❌ Reject</button>
+                    </div>
+                </div>
+                
+                <div class="controls">
+                    <h3>Quick Actions</h3>
+                    <div class="controls-grid">
+                        <button class="btn btn-success" onclick="startGame()">▶ Start Game</button>
+                        <button class="btn btn-danger" onclick="stopGame()">⏹ Stop Game</button>
+                        <button class="btn btn-primary" onclick="callNumber()">🔢 Call Number</button>
+                        <button class="btn btn-warning" onclick="resetGame()">🔄 Reset Game</button>
+                        <button class="btn btn-warning" onclick="pauseGame()">⏸ Pause</button>
+                        <button class="btn btn-success" onclick="resumeGame()">⏯ Resume</button>
+                    </div>
+                </div>
+            </div>
+            
+            <div id="playersTab" class="tab-content">
+                <div class="controls">
+                    <input type="text" id="playerSearch" placeholder="Search players..." class="broadcast-input" onkeyup="searchPlayers()">
+                </div>
+                <div class="players-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>ID</th>
+                                <th>Name</th>
+                                <th>Phone</th>
+                                <th>Room</th>
+                                <th>Board Type</th>
+                                <th>Board #</th>
+                                <th>Cards</th>
+                                <th>Stake</th>
+                                <th>Balance</th>
+                                <th>Status</th>
+                                <th>Action</th>
+                            </tr>
+                        </thead>
+                        <tbody id="playersTable">
+                            <!-- Players will be populated here -->
+                        </tbody>
+                    </table>
+                </div>
+                
+                <div class="controls" style="margin-top: 20px;">
+                    <h3>Throttled Clients</h3>
+                    <button class="btn btn-primary" onclick="loadClients()">🔄 Refresh</button>
+                </div>
+                <div class="players-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>IP</th>
+                                <th>Connections</th>
+                                <th>Recent Violations</th>
+                                <th>Throttled</th>
+                                <th>Last Message Type</th>
+                                <th>Last Throttled</th>
+                                <th>Banned Until</th>
+                                <th>Action</th>
+                            </tr>
+                        </thead>
+                        <tbody id="clientsTable">
+                            <!-- Throttled clients will be populated here -->
+                        </tbody>
+                    </table>
+                </div>
+                
+                <div class="controls" style="margin-top: 20px;">
+                    <h3>Scheduled Games</h3>
+                    <textarea id="schedulePlan" rows="6" class="broadcast-input" placeholder='{"name": "Evening", "recurrence": "daily", "games": [{"startsAt": "2026-01-01T18:00:00Z", "boardType": "75-ball", "stake": 20, "prize": 500}]}'></textarea>
+                    <div class="controls-grid">
+                        <button class="btn btn-success" onclick="loadSchedule()">📅 Load Plan</button>
+                        <button class="btn btn-primary" onclick="loadSchedules()">🔄 Refresh</button>
+                    </div>
+                </div>
+                <div class="players-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Session</th>
+                                <th>Game</th>
+                                <th>Room</th>
+                                <th>Starts</th>
+                                <th>Stake</th>
+                                <th>Prize</th>
+                                <th>Status</th>
+                                <th>Action</th>
+                            </tr>
+                        </thead>
+                        <tbody id="schedulesTable">
+                            <!-- Scheduled games will be populated here -->
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+            
+            <div id="roomsTab" class="tab-content">
+                <div class="players-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>ID</th>
+                                <th>Name</th>
+                                <th>Board Type</th>
+                                <th>Stake Tier</th>
+                                <th>Players</th>
+                                <th>Status</th>
+                                <th>Action</th>
+                            </tr>
+                        </thead>
+                        <tbody id="roomsTable">
+                            <!-- Rooms will be populated here -->
+                        </tbody>
+                    </table>
+                </div>
+                
+                <div class="controls" style="margin-top: 20px;">
+                    <h3>Create Room</h3>
+                    <input type="text" id="newRoomName" placeholder="Room name" class="broadcast-input">
+                    <select id="newRoomBoardType" class="broadcast-input">
+                        ${CONFIG.BOARD_TYPES.map(type => `<option value="${type}">${type}</option>`).join('')}
+                    </select>
+                    <select id="newRoomStakeTier" class="broadcast-input">
+                        ${Object.entries(CONFIG.STAKE_TIERS).map(([tier, range]) => `<option value="${tier}">${tier} (${range.min}-${range.max})</option>`).join('')}
+                    </select>
+                    <input type="number" id="newRoomMaxPlayers" placeholder="Max players" class="broadcast-input">
+                    <select id="newRoomDaubMode" class="broadcast-input">
+                        <option value="auto">Auto daub</option>
+                        <option value="manual">Manual daub</option>
+                    </select>
+                    <button class="btn btn-success" onclick="createRoom()">➕ Create Room</button>
+                </div>
+            </div>
+            
+            <div id="controlsTab" class="tab-content">
+                <div class="controls">
+                    <h3>Game Controls</h3>
+                    <div class="controls-grid">
+                        <button class="btn btn-success" onclick="startGame()">▶ Start Game</button>
+                        <button class="btn btn-danger" onclick="stopGame()">⏹ Stop Game</button>
+                        <button class="btn btn-primary" onclick="callNumber()">🔢 Call Number</button>
+                        <button class="btn btn-warning" onclick="resetGame()">🔄 Reset Game</button>
+                        <button class="btn btn-warning" onclick="pauseGame()">⏸ Pause</button>
+                        <button class="btn btn-success" onclick="resumeGame()">⏯ Resume</button>
+                    </div>
+                    
+                    <h3 style="margin-top: 30px;">Winning Patterns</h3>
+                    <input type="text" id="activePatterns" placeholder="Pattern names, comma separated (empty = board defaults)" class="broadcast-input">
+                    <button class="btn btn-primary" onclick="setPatterns()">🎯 Set Patterns</button>
+                    
+                    <h3 style="margin-top: 30px;">Prize Rules</h3>
+                    <div class="controls-grid">
+                        <input type="number" step="0.01" id="ruleHouseCut" placeholder="House cut (0.17)" class="broadcast-input">
+                        <input type="number" step="0.01" id="ruleJackpotContribution" placeholder="Jackpot share (0.03)" class="broadcast-input">
+                        <input type="number" id="ruleJackpotCalls" placeholder="Jackpot within N calls" class="broadcast-input">
+                        <input type="number" id="ruleGuaranteedMinimum" placeholder="Guaranteed minimum" class="broadcast-input">
+                        <select id="ruleSplitRule" class="broadcast-input">
+                            <option value="">Co-winner split (unchanged)</option>
+                            <option value="equal">Split equally</option>
+                            <option value="stake">Split by stake</option>
+                        </select>
+                    </div>
+                    <button class="btn btn-primary" onclick="setPrizeRules()">💰 Set Prize Rules</button>
+                    
+                    <h3 style="margin-top: 30px;">Claim Rules</h3>
+                    <div class="controls-grid">
+                        <select id="claimDaubMode" class="broadcast-input">
+                            <option value="">Daub mode (unchanged)</option>
+                            <option value="auto">Auto daub</option>
+                            <option value="manual">Manual daub</option>
+                        </select>
+                        <input type="number" id="claimWindow" placeholder="Claim window (ms)" class="broadcast-input">
+                        <input type="text" id="claimPenalties" placeholder="False claim penalties (warning,lockout,forfeit)" class="broadcast-input">
+                        <select id="claimReviewWins" class="broadcast-input">
+                            <option value="">Win review (unchanged)</option>
+                            <option value="false">Pay wins straight away</option>
+                            <option value="true">Hold wins for review</option>
+                        </select>
+                    </div>
+                    <button class="btn btn-primary" onclick="setClaimRules()">✋ Set Claim Rules</button>
+                    
+                    <h3 style="margin-top: 30px;">Game Lifecycle</h3>
+                    <div class="controls-grid">
+                        <input type="number" id="lifecycleMinPlayers" placeholder="Minimum players" class="broadcast-input">
+                        <input type="number" id="lifecycleCountdown" placeholder="Countdown (ms)" class="broadcast-input">
+                        <input type="number" id="lifecycleSalesCutoff" placeholder="Sales close before start (ms)" class="broadcast-input">
+                        <input type="number" id="lifecycleCooldown" placeholder="Cooldown (ms)" class="broadcast-input">
+                    </div>
+                    <button class="btn btn-primary" onclick="setLifecycle()">⏱️ Set Lifecycle</button>
+                    
+                    <h3 style="margin-top: 30px;">Calling Speed</h3>
+                    <div class="controls-grid">
+                        <input type="number" id="paceInterval" placeholder="Interval (ms)" class="broadcast-input">
+                        <input type="number" id="paceSlowInterval" placeholder="Slow interval near the end (ms, 0 = off)" class="broadcast-input">
+                        <input type="number" id="paceSlowFrom" placeholder="Slow down from call #" class="broadcast-input">
+                    </div>
+                    <button class="btn btn-primary" onclick="setCallPace()">🐢 Set Calling Speed</button>
+                    
+                    <h3 style="margin-top: 30px;">Broadcast Message</h3>
+                    <input type="text" id="broadcastMessage" placeholder="Enter system message..." class="broadcast-input">
+                    <label><input type="checkbox" id="broadcastAllRooms"> All rooms</label>
+                    <button class="btn btn-primary" onclick="sendBroadcast()">📢 Broadcast</button>
+                    
+                    <h3 style="margin-top: 30px;">Player Management</h3>
+                    <div class="controls-grid">
+                        <input type="text" id="kickPlayerId" placeholder="Player ID" class="broadcast-input">
+                        <button class="btn btn-danger" onclick="kickPlayer()">👢 Kick Player</button>
+                        <button class="btn btn-warning" onclick="revokeSessions()">🔒 Revoke Sessions</button>
+                    </div>
+                    
+                    <h3 style="margin-top: 30px;">Admin Users</h3>
+                    <div class="controls-grid">
+                        <input type="text" id="adminUsername" placeholder="Username" class="broadcast-input">
+                        <input type="password" id="adminPassword" placeholder="Password (10+ characters)" class="broadcast-input">
+                        <select id="adminRole" class="broadcast-input">
+                            <option value="operator">Operator (runs games)</option>
+                            <option value="cashier">Cashier (payments)</option>
+                            <option value="owner">Owner (everything)</option>
+                        </select>
                     </div>
-                    <div class="stat-card">
-                        <div class="stat-value" id="currentNumber">-</div>
-                        <div class="stat-label">Current Number</div>
+                    <div class="controls-grid">
+                        <button class="btn btn-success" onclick="createAdminUser()">➕ Create</button>
+                        <button class="btn btn-primary" onclick="updateAdminUser({ role: document.getElementById('adminRole').value })">🎭 Set Role</button>
+                        <button class="btn btn-danger" onclick="updateAdminUser({ disabled: true })">🚫 Disable</button>
+                        <button class="btn btn-primary" onclick="ws.send(JSON.stringify({ type: 'admin_list_users' }))">📋 List</button>
+                        <button class="btn btn-warning" onclick="changeOwnPassword()">🔑 My Password</button>
                     </div>
-                    <div class="stat-card">
-                        <div class="stat-value" id="winner">None</div>
-                        <div class="stat-label">Current Winner</div>
+                    
+                    <h3 style="margin-top: 30px;">Wallet</h3>
+                    <div class="controls-grid">
+                        <input type="text" id="walletPhone" placeholder="Phone (09xxxxxxxx)" class="broadcast-input">
+                        <input type="number" id="walletAmount" placeholder="Amount (negative to debit)" class="broadcast-input">
+                        <input type="text" id="walletReference" placeholder="Receipt reference or reason" class="broadcast-input">
                     </div>
-                </div>
-                
-                <div class="controls">
-                    <h3>Quick Actions</h3>
                     <div class="controls-grid">
-                        <button class="btn btn-success" onclick="startGame()">▶ Start Game</button>
-                        <button class="btn btn-danger" onclick="stopGame()">⏹ Stop Game</button>
-                        <button class="btn btn-primary" onclick="callNumber()">🔢 Call Number</button>
-                        <button class="btn btn-warning" onclick="resetGame()">🔄 Reset Game</button>
+                        <button class="btn btn-success" onclick="recordDeposit()">💰 Record Deposit</button>
+                        <button class="btn btn-warning" onclick="adjustBalance()">✏️ Adjust Balance</button>
+                        <button class="btn btn-primary" onclick="getStatement()">📄 Statement</button>
+                        <button class="btn btn-primary" onclick="getReconciliation()">📒 Reconciliation</button>
                     </div>
                 </div>
             </div>
             
-            <div id="playersTab" class="tab-content">
+            <div id="withdrawalsTab" class="tab-content">
                 <div class="controls">
-                    <input type="text" id="playerSearch" placeholder="Search players..." class="broadcast-input" onkeyup="searchPlayers()">
+                    <select id="withdrawalFilter" class="broadcast-input" onchange="loadWithdrawals()">
+                        <option value="pending">Pending</option>
+                        <option value="processing">Processing</option>
+                        <option value="approved">Approved</option>
+                        <option value="paid">Paid</option>
+                        <option value="rejected">Rejected</option>
+                        <option value="failed">Failed</option>
+                        <option value="">All</option>
+                    </select>
                 </div>
                 <div class="players-table">
                     <table>
                         <thead>
                             <tr>
                                 <th>ID</th>
-                                <th>Name</th>
+                                <th>Player</th>
                                 <th>Phone</th>
-                                <th>Board Type</th>
-                                <th>Board #</th>
-                                <th>Stake</th>
-                                <th>Balance</th>
+                                <th>Amount</th>
+                                <th>Account</th>
                                 <th>Status</th>
+                                <th>Requested</th>
                                 <th>Action</th>
                             </tr>
                         </thead>
-                        <tbody id="playersTable">
-                            <!-- Players will be populated here -->
+                        <tbody id="withdrawalsTable">
+                            <!-- Withdrawals will be populated here -->
                         </tbody>
                     </table>
                 </div>
             </div>
             
-            <div id="controlsTab" class="tab-content">
+            <div id="auditTab" class="tab-content">
                 <div class="controls">
-                    <h3>Game Controls</h3>
-                    <div class="controls-grid">
-                        <button class="btn btn-success" onclick="startGame()">▶ Start Game</button>
-                        <button class="btn btn-danger" onclick="stopGame()">⏹ Stop Game</button>
-                        <button class="btn btn-primary" onclick="callNumber()">🔢 Call Number</button>
-                        <button class="btn btn-warning" onclick="resetGame()">🔄 Reset Game</button>
-                    </div>
-                    
-                    <h3 style="margin-top: 30px;">Broadcast Message</h3>
-                    <input type="text" id="broadcastMessage" placeholder="Enter system message..." class="broadcast-input">
-                    <button class="btn btn-primary" onclick="sendBroadcast()">📢 Broadcast</button>
-                    
-                    <h3 style="margin-top: 30px;">Player Management</h3>
                     <div class="controls-grid">
-                        <input type="text" id="kickPlayerId" placeholder="Player ID to kick" class="broadcast-input">
-                        <button class="btn btn-danger" onclick="kickPlayer()">👢 Kick Player</button>
+                        <input type="text" id="auditActor" placeholder="Admin" class="broadcast-input">
+                        <input type="text" id="auditAction" placeholder="Action (kick_player)" class="broadcast-input">
+                        <input type="text" id="auditTargetId" placeholder="Player, phone, room or withdrawal ID" class="broadcast-input">
+                        <input type="text" id="auditGameId" placeholder="Game ID" class="broadcast-input">
+                        <input type="datetime-local" id="auditFrom" class="broadcast-input">
+                        <input type="datetime-local" id="auditTo" class="broadcast-input">
                     </div>
+                    <button class="btn btn-primary" onclick="loadAudit()">🔍 Search</button>
+                    <span id="auditChain" style="margin-left: 15px;"></span>
+                </div>
+                <div class="players-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>#</th>
+                                <th>Time</th>
+                                <th>Admin</th>
+                                <th>Action</th>
+                                <th>Target</th>
+                                <th>Result</th>
+                                <th>Before</th>
+                                <th>After</th>
+                            </tr>
+                        </thead>
+                        <tbody id="auditTable">
+                            <!-- Audit entries will be populated here -->
+                        </tbody>
+                    </table>
                 </div>
             </div>
             
@@ -1478,12 +8719,27 @@ async function handleRequest(request: Request): Promise<Response> {
         
         <script>
             let ws;
+            let rooms = {};
+            let claimReviews = {};
+            let selectedRoomId = null;
             let players = [];
+            let withdrawals = [];
+            let clients = [];
+            let schedules = [];
             let logs = [];
             
-            function connectWebSocket() {
+            async function connectWebSocket() {
+                // The session cookie buys a one-time ticket; without a session go back to the login form
+                const response = await fetch('/api/admin/ws-ticket', { method: 'POST' });
+                if (response.status === 401) {
+                    window.location.reload();
+                    return;
+                }
+                const { ticket, username, role } = await response.json();
+                document.getElementById('adminIdentity').textContent = \`\${username} (\${role})\`;
+                
                 const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-                const wsUrl = \`\${protocol}//\${window.location.host}/ws?admin=${CONFIG.ADMIN_KEY}\`;
+                const wsUrl = \`\${protocol}//\${window.location.host}/ws?ticket=\${ticket}\`;
                 
                 ws = new WebSocket(wsUrl);
                 
@@ -1511,56 +8767,276 @@ async function handleRequest(request: Request): Promise<Response> {
             function handleAdminMessage(data) {
                 switch(data.type) {
                     case 'admin_connected':
-                        updateDashboard(data.gameState);
-                        players = data.gameState.players || [];
-                        updatePlayersTable();
-                        logs = data.gameLog || [];
-                        updateLogs();
+                    case 'admin_rooms':
+                        setRooms(data.rooms || []);
+                        if (data.gameLog) {
+                            logs = data.gameLog;
+                            updateLogs();
+                        }
+                        if (data.type === 'admin_connected') {
+                            loadWithdrawals();
+                            if (data.role !== 'cashier') {
+                                loadClients();
+                                loadSchedules();
+                            }
+                        }
+                        break;
+                        
+                    case 'admin_withdrawals':
+                        withdrawals = data.withdrawals;
+                        updateWithdrawalsTable();
+                        break;
+                        
+                    case 'withdrawal_requested_admin':
+                        addLog(\`💸 Withdrawal requested: \${data.withdrawal.playerName} - \${data.withdrawal.amount} Birr\`);
+                        loadWithdrawals();
+                        break;
+                        
+                    case 'withdrawal_updated_admin':
+                        addLog(\`💸 Withdrawal \${data.withdrawal.id} \${data.withdrawal.status}\`);
+                        loadWithdrawals();
+                        break;
+                        
+                    case 'admin_clients':
+                        clients = data.clients;
+                        updateClientsTable();
+                        break;
+                        
+                    case 'client_throttled_admin':
+                        addLog(\`🚦 Throttling \${data.client.ip} (\${data.client.lastThrottledType})\`);
+                        loadClients();
+                        break;
+                        
+                    case 'client_banned_admin':
+                        addLog(\`⛔ Banned \${data.client.ip} until \${new Date(data.client.bannedUntil).toLocaleString()}\`);
+                        loadClients();
+                        break;
+                        
+                    case 'admin_schedules':
+                        schedules = data.sessions;
+                        updateSchedulesTable();
+                        break;
+                        
+                    case 'schedule_updated_admin':
+                        schedules = schedules.filter(session => session.id !== data.session.id).concat(data.session);
+                        updateSchedulesTable();
+                        break;
+                        
+                    case 'room_created_admin':
+                    case 'room_closed_admin':
+                        ws.send(JSON.stringify({ type: 'admin_list_rooms' }));
                         break;
                         
                     case 'player_registered_admin':
                         players.push(data.player);
-                        updateDashboard({ players: players.length, prizePool: data.prizePool });
+                        if (data.roomId === selectedRoomId) {
+                            updateDashboard({ players: data.totalPlayers, prizePool: data.prizePool });
+                        }
                         updatePlayersTable();
-                        addLog(\`Player registered: \${data.player.name}\`);
+                        addLog(\`[\${data.roomId}] Player registered: \${data.player.name}\`);
                         break;
                         
                     case 'player_disconnected_admin':
                         players = players.filter(p => p.id !== data.playerId);
-                        updateDashboard({ players: players.length });
                         updatePlayersTable();
-                        addLog(\`Player disconnected: \${data.playerName}\`);
+                        addLog(\`[\${data.roomId}] Player disconnected: \${data.playerName}\`);
                         break;
                         
                     case 'number_called_admin':
-                        updateDashboard({ 
-                            calledNumbers: data.totalCalled,
-                            currentNumber: data.display 
-                        });
-                        addLog(\`Number called: \${data.display}\`);
+                        if (data.roomId === selectedRoomId) {
+                            updateDashboard({
+                                calledNumbers: data.totalCalled,
+                                currentNumber: data.display
+                            });
+                        }
+                        addLog(\`[\${data.roomId}] Number called: \${data.display}\${data.nextCallAt ? ', next at ' + new Date(data.nextCallAt).toLocaleTimeString() : ''}\`);
+                        break;
+                        
+                    case 'claim_review_admin':
+                        claimReviews[data.roomId] = data.review;
+                        updateClaimReview();
+                        addLog(\`[\${data.roomId}] ✋ Claim held for review: \${data.review.claims.map(claim => claim.playerName).join(', ')}\`);
                         break;
                         
                     case 'game_started_admin':
-                        updateDashboard({ gameActive: true });
-                        addLog('Game started');
+                        if (data.roomId === selectedRoomId) {
+                            updateDashboard({ gameActive: true });
+                        }
+                        addLog(\`[\${data.roomId}] Game started\`);
+                        break;
+                        
+                    case 'phase_changed_admin':
+                        if (rooms[data.roomId]) {
+                            rooms[data.roomId].phase = data.phase;
+                            updateRoomsTable();
+                        }
+                        if (data.phase !== 'reviewing' && claimReviews[data.roomId]) {
+                            delete claimReviews[data.roomId];
+                            updateClaimReview();
+                        }
+                        addLog(\`[\${data.roomId}] Phase: \${data.phase}\${data.endsAt ? ' until ' + new Date(data.endsAt).toLocaleTimeString() : ''}\`);
                         break;
                         
                     case 'game_stopped_admin':
-                        updateDashboard({ gameActive: false });
-                        addLog('Game stopped');
+                        if (data.roomId === selectedRoomId) {
+                            updateDashboard({ gameActive: false });
+                        }
+                        addLog(\`[\${data.roomId}] Game stopped\`);
                         break;
                         
                     case 'winner_admin':
-                        updateDashboard({ winner: data.player.name });
-                        addLog(\`🎉 WINNER: \${data.player.name} won \${data.prize} Birr!\`);
+                        if (data.roomId === selectedRoomId) {
+                            updateDashboard({ winner: data.player.name });
+                        }
+                        (data.winners || [{ playerName: data.player.name, prize: data.prize }]).forEach(winner => {
+                            addLog(\`[\${data.roomId}] 🎉 WINNER: \${winner.playerName} won \${winner.prize} Birr!\`);
+                        });
+                        break;
+                        
+                    case 'false_claim_admin':
+                        addLog(\`[\${data.roomId}] ⚠️ False claim #\${data.falseClaims} by \${data.playerName}: \${data.penalty}\`);
+                        break;
+                        
+                    case 'admin_stats':
+                        if (data.roomId === selectedRoomId && data.gameState) {
+                            updateDashboard({ ...data.gameState, players: data.gameState.totalPlayers });
+                        }
                         break;
                         
                     case 'chat_message_admin':
                         addLog(\`💬 \${data.playerName}: \${data.message}\`);
                         break;
+                        
+                    case 'admin_action_result':
+                        addLog(\`\${data.success ? '✅' : '❌'} \${data.action}: \${data.message || ''}\`);
+                        break;
+                        
+                    case 'error':
+                        addLog(\`❌ \${data.message}\`);
+                        break;
+                        
+                    case 'admin_users':
+                        data.users.forEach(user => {
+                            addLog(\`👤 \${user.username}: \${user.role}\${user.disabled ? ' (disabled)' : ''}\`);
+                        });
+                        break;
+                        
+                    case 'admin_statement':
+                        addLog(\`📄 \${data.phone} (\${data.name || 'unknown'}): balance \${data.balance} Birr, held \${data.held} Birr\`);
+                        data.entries.forEach(entry => {
+                            addLog(\`   \${entry.createdAt} \${entry.type} \${entry.amount} → \${entry.balance} (\${entry.memo})\`);
+                        });
+                        break;
+                        
+                    case 'admin_reconciliation':
+                        const totals = data.report.totals;
+                        addLog(\`📒 Ledger \${data.report.balanced ? 'balanced' : 'OUT OF BALANCE'} over \${data.report.entries} entries: deposited \${totals.deposited}, adjustments \${totals.adjustments}, wallets \${totals.playerWallets}, held \${totals.withdrawalsHeld}, pools \${totals.prizePools}, fees \${totals.serviceFees}, withdrawn \${totals.withdrawn}\`);
+                        break;
                 }
             }
             
+            function setRooms(roomList) {
+                rooms = {};
+                players = [];
+                claimReviews = {};
+                roomList.forEach(room => {
+                    rooms[room.id] = room;
+                    players.push(...(room.players || []));
+                    if (room.claimReview) claimReviews[room.id] = room.claimReview;
+                });
+                
+                if (!rooms[selectedRoomId]) {
+                    selectedRoomId = roomList.length ? roomList[0].id : null;
+                }
+                
+                const select = document.getElementById('roomSelect');
+                select.innerHTML = '';
+                roomList.forEach(room => {
+                    const option = document.createElement('option');
+                    option.value = room.id;
+                    option.textContent = \`\${room.name} (\${room.boardType}, \${room.totalPlayers} players)\`;
+                    option.selected = room.id === selectedRoomId;
+                    select.appendChild(option);
+                });
+                
+                selectRoom(selectedRoomId);
+                updatePlayersTable();
+                updateRoomsTable();
+            }
+            
+            function selectRoom(roomId) {
+                selectedRoomId = roomId;
+                const room = rooms[roomId];
+                if (!room) return;
+                updateDashboard({
+                    players: room.totalPlayers,
+                    prizePool: room.prizePool,
+                    gameActive: room.gameActive,
+                    calledNumbers: room.calledNumbers.length,
+                    currentNumber: room.currentDisplay,
+                    totalCollected: room.totalCollected,
+                    totalPaidOut: room.totalPaidOut,
+                    winner: room.winner ? room.winner.name : null
+                });
+                updateClaimReview();
+            }
+            
+            function updateClaimReview() {
+                const review = claimReviews[selectedRoomId];
+                document.getElementById('claimReview').style.display = review ? 'block' : 'none';
+                if (!review) return;
+                
+                const called = new Set(review.calledNumbers);
+                document.getElementById('claimReviewCards').innerHTML = review.claims.map(claim => {
+                    const marked = new Set(claim.markedNumbers);
+                    const columns = claim.boardNumbers.length === 9 ? 3 : 5;
+                    const cells = claim.boardNumbers.map(num => \`
+                        <div class="review-cell \${called.has(num) ? 'called' : ''} \${marked.has(num) ? 'marked' : ''}">\${num}</div>
+                    \`).join('');
+                    return \`
+                        <div class="review-card">
+                            <strong>\${escapeHtml(claim.playerName)}</strong> (\${escapeHtml(claim.phone)}) · board \${claim.boardNumber} · \${escapeHtml(claim.patternLabel)}
+                            <div class="review-grid" style="grid-template-columns: repeat(\${columns}, 44px);">\${cells}</div>
+                        </div>
+                    \`;
+                }).join('');
+            }
+            
+            function confirmClaim() {
+                ws.send(JSON.stringify({ type: 'admin_confirm_claim', roomId: selectedRoomId }));
+            }
+            
+            function rejectClaim() {
+                const reason = prompt('Reason for rejecting (shown to players):');
+                if (reason === null) return;
+                ws.send(JSON.stringify({ type: 'admin_reject_claim', roomId: selectedRoomId, reason: reason || undefined }));
+            }
+            
+            function updateRoomsTable() {
+                const tbody = document.getElementById('roomsTable');
+                tbody.innerHTML = '';
+                
+                Object.values(rooms).forEach(room => {
+                    const row = document.createElement('tr');
+                    row.innerHTML = \`
+                        <td>\${escapeHtml(room.id)}</td>
+                        <td>\${escapeHtml(room.name)}</td>
+                        <td>\${room.boardType}</td>
+                        <td>\${room.stakeTier} (\${room.minStake}-\${room.maxStake} ብር)</td>
+                        <td>\${room.totalPlayers}/\${room.maxPlayers}</td>
+                        <td class="\${room.gameActive ? 'connected' : 'disconnected'}">
+                            \${room.phase}
+                        </td>
+                        <td>
+                            <button class="btn btn-danger btn-small" onclick="closeRoom('\${room.id}')">
+                                Close
+                            </button>
+                        </td>
+                    \`;
+                    tbody.appendChild(row);
+                });
+            }
+            
             function updateDashboard(stats) {
                 if (stats.players !== undefined) {
                     document.getElementById('playerCount').textContent = stats.players;
@@ -1597,11 +9073,13 @@ async function handleRequest(request: Request): Promise<Response> {
                     const row = document.createElement('tr');
                     row.innerHTML = \`
                         <td>\${player.id.substring(0, 8)}...</td>
-                        <td>\${player.name}</td>
-                        <td>\${player.phone}</td>
+                        <td>\${escapeHtml(player.name)}</td>
+                        <td>\${escapeHtml(player.phone)}</td>
+                        <td>\${escapeHtml(player.roomId)}</td>
                         <td>\${player.boardType}</td>
-                        <td>\${player.boardNumber}</td>
-                        <td>\${player.stake} ብር</td>
+                        <td>\${(player.boardNumbers || [player.boardNumber]).join(', ')}</td>
+                        <td>\${player.cards || 1}</td>
+                        <td>\${player.stake} ብር\${player.cards > 1 ? \` × \${player.cards}\` : ''}</td>
                         <td>\${player.balance} ብር</td>
                         <td class="\${player.isOnline ? 'connected' : 'disconnected'}">
                             \${player.isOnline ? 'Online' : 'Offline'}
@@ -1616,6 +9094,196 @@ async function handleRequest(request: Request): Promise<Response> {
                 });
             }
             
+            function loadClients() {
+                ws.send(JSON.stringify({ type: 'admin_list_clients' }));
+            }
+            
+            function updateClientsTable() {
+                const tbody = document.getElementById('clientsTable');
+                tbody.innerHTML = '';
+                
+                clients.forEach(client => {
+                    const row = document.createElement('tr');
+                    row.innerHTML = \`
+                        <td>\${escapeHtml(client.ip)}</td>
+                        <td>\${client.connections}</td>
+                        <td>\${client.recentViolations}</td>
+                        <td>\${client.throttledTotal}</td>
+                        <td>\${escapeHtml(client.lastThrottledType || '-')}</td>
+                        <td>\${client.lastThrottledAt ? new Date(client.lastThrottledAt).toLocaleString() : '-'}</td>
+                        <td>\${client.bannedUntil ? new Date(client.bannedUntil).toLocaleString() : '-'}</td>
+                        <td>
+                            \${client.bannedUntil ? \`<button class="btn btn-warning btn-small" data-ip="\${escapeHtml(client.ip)}">Unban</button>\` : ''}
+                        </td>
+                    \`;
+                    // The IP goes through a data attribute so it is never evaluated as script
+                    row.querySelector('button[data-ip]')?.addEventListener('click', event => unbanClient(event.currentTarget.dataset.ip));
+                    tbody.appendChild(row);
+                });
+            }
+            
+            function unbanClient(ip) {
+                ws.send(JSON.stringify({ type: 'admin_unban_client', ip: ip }));
+                loadClients();
+            }
+            
+            function loadSchedules() {
+                ws.send(JSON.stringify({ type: 'admin_list_schedules' }));
+            }
+            
+            function loadSchedule() {
+                let plan;
+                try {
+                    plan = JSON.parse(document.getElementById('schedulePlan').value);
+                } catch (error) {
+                    alert('The session plan is not valid JSON');
+                    return;
+                }
+                ws.send(JSON.stringify({ ...plan, type: 'admin_load_schedule' }));
+            }
+            
+            function cancelSchedule(sessionId) {
+                if (confirm('Cancel the games in this session that have not started?')) {
+                    ws.send(JSON.stringify({ type: 'admin_cancel_schedule', sessionId: sessionId }));
+                }
+            }
+            
+            function updateSchedulesTable() {
+                const tbody = document.getElementById('schedulesTable');
+                tbody.innerHTML = '';
+                
+                schedules.forEach(session => {
+                    session.games.forEach(game => {
+                        const row = document.createElement('tr');
+                        row.innerHTML = \`
+                            <td>\${escapeHtml(session.name)}\${session.recurrence !== 'none' ? \` (\${session.recurrence})\` : ''}</td>
+                            <td>\${escapeHtml(game.name)}</td>
+                            <td>\${escapeHtml(game.roomName || game.roomId)}</td>
+                            <td>\${new Date(game.startsAt).toLocaleString()}</td>
+                            <td>\${game.stake} ብር</td>
+                            <td>\${game.prize} ብር</td>
+                            <td>\${game.status}\${game.note ? \` - \${escapeHtml(game.note)}\` : ''}</td>
+                            <td>
+                                \${game.position === 1 && !session.cancelledAt ? \`<button class="btn btn-danger btn-small" onclick="cancelSchedule('\${session.id}')">Cancel</button>\` : ''}
+                            </td>
+                        \`;
+                        tbody.appendChild(row);
+                    });
+                });
+            }
+            
+            function loadWithdrawals() {
+                ws.send(JSON.stringify({
+                    type: 'admin_list_withdrawals',
+                    status: document.getElementById('withdrawalFilter').value || undefined
+                }));
+            }
+            
+            function escapeHtml(value) {
+                return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+            }
+            
+            async function loadAudit() {
+                const params = new URLSearchParams({ limit: '200' });
+                const filters = { actor: 'auditActor', action: 'auditAction', targetId: 'auditTargetId', gameId: 'auditGameId' };
+                for (const [param, id] of Object.entries(filters)) {
+                    const value = document.getElementById(id).value.trim();
+                    if (value) params.set(param, value);
+                }
+                for (const [param, id] of Object.entries({ from: 'auditFrom', to: 'auditTo' })) {
+                    const value = document.getElementById(id).value;
+                    if (value) params.set(param, new Date(value).toISOString());
+                }
+                
+                const response = await fetch('/api/admin/audit?' + params);
+                const tbody = document.getElementById('auditTable');
+                if (!response.ok) {
+                    tbody.innerHTML = '<tr><td colspan="8">Only owners can read the audit trail</td></tr>';
+                    return;
+                }
+                
+                const { entries, total, chain } = await response.json();
+                document.getElementById('auditChain').textContent = chain.valid
+                    ? \`✅ Chain intact (\${chain.entries} entries), showing \${entries.length} of \${total}\`
+                    : \`❌ Chain broken at entry \${chain.brokenAt}: \${chain.reason}\`;
+                    
+                tbody.innerHTML = '';
+                entries.forEach(entry => {
+                    const row = document.createElement('tr');
+                    row.innerHTML = \`
+                        <td title="\${entry.hash}">\${entry.seq}</td>
+                        <td>\${new Date(entry.createdAt).toLocaleString()}</td>
+                        <td>\${escapeHtml(entry.actor)} (\${entry.role || '-'})</td>
+                        <td title="\${escapeHtml(JSON.stringify(entry.details))}">\${escapeHtml(entry.action.replace(/^admin_/, ''))}</td>
+                        <td>\${entry.target ? escapeHtml(entry.target.type + ' ' + entry.target.id) : '-'}\${entry.gameId ? '<br><small>' + escapeHtml(entry.gameId) + '</small>' : ''}</td>
+                        <td style="color: \${entry.success ? '#0f0' : '#f66'}">\${escapeHtml(entry.message)}</td>
+                        <td><small>\${escapeHtml(JSON.stringify(entry.before))}</small></td>
+                        <td><small>\${escapeHtml(JSON.stringify(entry.after))}</small></td>
+                    \`;
+                    tbody.appendChild(row);
+                });
+            }
+            
+            function updateWithdrawalsTable() {
+                const tbody = document.getElementById('withdrawalsTable');
+                tbody.innerHTML = '';
+                
+                withdrawals.forEach(withdrawal => {
+                    const canApprove = withdrawal.status === 'pending';
+                    const inFlight = withdrawal.status === 'processing' || withdrawal.status === 'approved';
+                    const row = document.createElement('tr');
+                    row.innerHTML = \`
+                        <td>\${escapeHtml(withdrawal.id.substring(0, 20))}...</td>
+                        <td>\${escapeHtml(withdrawal.playerName)}</td>
+                        <td>\${escapeHtml(withdrawal.phone)}</td>
+                        <td>\${withdrawal.amount} ብር</td>
+                        <td>\${escapeHtml(withdrawal.account)}</td>
+                        <td title="\${escapeHtml(withdrawal.note)}">\${escapeHtml(withdrawal.status)}</td>
+                        <td>\${new Date(withdrawal.requestedAt).toLocaleString()}</td>
+                        <td>
+                            \${canApprove ? \`<button class="btn btn-success btn-small" onclick="approveWithdrawal('\${withdrawal.id}')">Approve</button>\` : ''}
+                            \${withdrawal.status === 'pending' ? \`<button class="btn btn-danger btn-small" onclick="rejectWithdrawal('\${withdrawal.id}')">Reject</button>\` : ''}
+                            \${inFlight ? \`<button class="btn btn-success btn-small" onclick="resolveWithdrawal('\${withdrawal.id}', 'paid')">Mark paid</button>\` : ''}
+                            \${inFlight ? \`<button class="btn btn-danger btn-small" onclick="resolveWithdrawal('\${withdrawal.id}', 'failed')">Mark failed</button>\` : ''}
+                        </td>
+                    \`;
+                    tbody.appendChild(row);
+                });
+            }
+            
+            function approveWithdrawal(withdrawalId) {
+                ws.send(JSON.stringify({
+                    type: 'admin_approve_withdrawal',
+                    withdrawalId: withdrawalId
+                }));
+            }
+            
+            function rejectWithdrawal(withdrawalId) {
+                const reason = prompt('Reason for rejecting this withdrawal:');
+                if (reason === null) return;
+                ws.send(JSON.stringify({
+                    type: 'admin_reject_withdrawal',
+                    withdrawalId: withdrawalId,
+                    reason: reason
+                }));
+            }
+            
+            function resolveWithdrawal(withdrawalId, outcome) {
+                let reason = '';
+                if (outcome === 'failed') {
+                    reason = prompt('Why did this payout fail?');
+                    if (reason === null) return;
+                } else if (!confirm('Only mark this payout paid once the provider shows it was sent. Continue?')) {
+                    return;
+                }
+                ws.send(JSON.stringify({
+                    type: 'admin_resolve_withdrawal',
+                    withdrawalId: withdrawalId,
+                    outcome: outcome,
+                    reason: reason
+                }));
+            }
+            
             function updateLogs() {
                 const logContainer = document.getElementById('gameLog');
                 logContainer.innerHTML = '';
@@ -1666,19 +9334,139 @@ async function handleRequest(request: Request): Promise<Response> {
             
             // Game control functions
             function startGame() {
-                ws.send(JSON.stringify({ type: 'admin_start_game' }));
+                ws.send(JSON.stringify({ type: 'admin_start_game', roomId: selectedRoomId }));
             }
             
             function stopGame() {
-                ws.send(JSON.stringify({ type: 'admin_stop_game' }));
+                ws.send(JSON.stringify({ type: 'admin_stop_game', roomId: selectedRoomId }));
             }
             
             function callNumber() {
-                ws.send(JSON.stringify({ type: 'admin_call_number' }));
+                ws.send(JSON.stringify({ type: 'admin_call_number', roomId: selectedRoomId }));
             }
             
             function resetGame() {
-                ws.send(JSON.stringify({ type: 'admin_reset_game' }));
+                ws.send(JSON.stringify({ type: 'admin_reset_game', roomId: selectedRoomId }));
+            }
+            
+            function pauseGame() {
+                const reason = prompt('Reason for pausing (shown to players):');
+                if (reason === null) return;
+                ws.send(JSON.stringify({ type: 'admin_pause_game', roomId: selectedRoomId, reason: reason || undefined }));
+            }
+            
+            function resumeGame() {
+                ws.send(JSON.stringify({ type: 'admin_resume_game', roomId: selectedRoomId }));
+            }
+            
+            function setCallPace() {
+                const pace = {
+                    interval: document.getElementById('paceInterval').value,
+                    slowInterval: document.getElementById('paceSlowInterval').value,
+                    slowFrom: document.getElementById('paceSlowFrom').value
+                };
+                // Blank fields keep the room's current value
+                Object.keys(pace).forEach(key => {
+                    if (pace[key] === '') delete pace[key];
+                });
+                if (pace.slowInterval === '0') pace.slowInterval = null;
+                ws.send(JSON.stringify({
+                    type: 'admin_set_call_pace',
+                    roomId: selectedRoomId,
+                    ...pace
+                }));
+            }
+            
+            function setPatterns() {
+                const patterns = document.getElementById('activePatterns').value
+                    .split(',')
+                    .map(name => name.trim())
+                    .filter(name => name);
+                ws.send(JSON.stringify({
+                    type: 'admin_set_pattern',
+                    roomId: selectedRoomId,
+                    patterns: patterns
+                }));
+            }
+            
+            function setPrizeRules() {
+                const rules = {
+                    houseCut: document.getElementById('ruleHouseCut').value,
+                    jackpotContribution: document.getElementById('ruleJackpotContribution').value,
+                    jackpotCalls: document.getElementById('ruleJackpotCalls').value,
+                    guaranteedMinimum: document.getElementById('ruleGuaranteedMinimum').value,
+                    splitRule: document.getElementById('ruleSplitRule').value
+                };
+                // Blank fields keep the room's current value
+                Object.keys(rules).forEach(key => {
+                    if (rules[key] === '') delete rules[key];
+                });
+                ws.send(JSON.stringify({
+                    type: 'admin_set_prize_rules',
+                    roomId: selectedRoomId,
+                    ...rules
+                }));
+            }
+            
+            function setClaimRules() {
+                const rules = {
+                    daubMode: document.getElementById('claimDaubMode').value,
+                    claimWindow: document.getElementById('claimWindow').value,
+                    falseClaimPenalties: document.getElementById('claimPenalties').value
+                        .split(',')
+                        .map(penalty => penalty.trim())
+                        .filter(penalty => penalty)
+                };
+                // Blank fields keep the room's current value
+                Object.keys(rules).forEach(key => {
+                    if (rules[key] === '' || rules[key].length === 0) delete rules[key];
+                });
+                const reviewWins = document.getElementById('claimReviewWins').value;
+                if (reviewWins) rules.reviewWins = reviewWins === 'true';
+                ws.send(JSON.stringify({
+                    type: 'admin_set_claim_rules',
+                    roomId: selectedRoomId,
+                    ...rules
+                }));
+            }
+            
+            function setLifecycle() {
+                const rules = {
+                    minPlayers: document.getElementById('lifecycleMinPlayers').value,
+                    countdown: document.getElementById('lifecycleCountdown').value,
+                    salesCutoff: document.getElementById('lifecycleSalesCutoff').value,
+                    cooldown: document.getElementById('lifecycleCooldown').value
+                };
+                // Blank fields keep the room's current value
+                Object.keys(rules).forEach(key => {
+                    if (rules[key] === '') delete rules[key];
+                });
+                ws.send(JSON.stringify({
+                    type: 'admin_set_lifecycle',
+                    roomId: selectedRoomId,
+                    ...rules
+                }));
+            }
+            
+            function createRoom() {
+                ws.send(JSON.stringify({
+                    type: 'admin_create_room',
+                    name: document.getElementById('newRoomName').value,
+                    boardType: document.getElementById('newRoomBoardType').value,
+                    stakeTier: document.getElementById('newRoomStakeTier').value,
+                    maxPlayers: document.getElementById('newRoomMaxPlayers').value,
+                    daubMode: document.getElementById('newRoomDaubMode').value
+                }));
+                document.getElementById('newRoomName').value = '';
+            }
+            
+            function closeRoom(roomId) {
+                if (confirm(\`Close room \${roomId}? Players in it will be disconnected.\`)) {
+                    ws.send(JSON.stringify({
+                        type: 'admin_close_room',
+                        roomId: roomId
+                    }));
+                }
             }
             
             function sendBroadcast() {
@@ -1686,12 +9474,42 @@ async function handleRequest(request: Request): Promise<Response> {
                 if (message.trim()) {
                     ws.send(JSON.stringify({
                         type: 'admin_broadcast',
+                        roomId: document.getElementById('broadcastAllRooms').checked ? undefined : selectedRoomId,
                         message: message
                     }));
                     document.getElementById('broadcastMessage').value = '';
                 }
             }
             
+            function recordDeposit() {
+                ws.send(JSON.stringify({
+                    type: 'admin_deposit',
+                    phone: document.getElementById('walletPhone').value.trim(),
+                    amount: document.getElementById('walletAmount').value,
+                    reference: document.getElementById('walletReference').value.trim()
+                }));
+            }
+            
+            function adjustBalance() {
+                ws.send(JSON.stringify({
+                    type: 'admin_adjust_balance',
+                    phone: document.getElementById('walletPhone').value.trim(),
+                    amount: document.getElementById('walletAmount').value,
+                    reason: document.getElementById('walletReference').value.trim()
+                }));
+            }
+            
+            function getStatement() {
+                ws.send(JSON.stringify({
+                    type: 'admin_get_statement',
+                    phone: document.getElementById('walletPhone').value.trim()
+                }));
+            }
+            
+            function getReconciliation() {
+                ws.send(JSON.stringify({ type: 'admin_reconciliation' }));
+            }
+            
             function kickPlayer(playerId) {
                 if (!playerId) {
                     playerId = document.getElementById('kickPlayerId').value;
@@ -1706,13 +9524,54 @@ async function handleRequest(request: Request): Promise<Response> {
                 }
             }
             
+            function revokeSessions() {
+                const playerId = document.getElementById('kickPlayerId').value;
+                if (playerId) {
+                    ws.send(JSON.stringify({
+                        type: 'admin_revoke_session',
+                        playerId: playerId
+                    }));
+                    document.getElementById('kickPlayerId').value = '';
+                }
+            }
+            
+            async function logout() {
+                await fetch('/api/admin/logout', { method: 'POST' });
+                window.location.reload();
+            }
+            
+            function createAdminUser() {
+                ws.send(JSON.stringify({
+                    type: 'admin_create_user',
+                    username: document.getElementById('adminUsername').value,
+                    password: document.getElementById('adminPassword').value,
+                    role: document.getElementById('adminRole').value
+                }));
+                document.getElementById('adminPassword').value = '';
+            }
+            
+            function updateAdminUser(changes) {
+                ws.send(JSON.stringify({
+                    type: 'admin_update_user',
+                    username: document.getElementById('adminUsername').value,
+                    ...changes
+                }));
+            }
+            
+            function changeOwnPassword() {
+                const password = prompt('New password (at least 10 characters)');
+                if (password) {
+                    ws.send(JSON.stringify({ type: 'admin_change_password', password: password }));
+                }
+            }
+            
             // Initialize
             connectWebSocket();
             
             // Auto-refresh stats every 5 seconds
             setInterval(() => {
                 if (ws.readyState === WebSocket.OPEN) {
-                    ws.send(JSON.stringify({ type: 'admin_get_stats' }));
+                    ws.send(JSON.stringify({ type: 'admin_get_stats', roomId: selectedRoomId }));
                 }
             }, 5000);
         </script>
@@ -1730,9 +9589,15 @@ async function handleRequest(request: Request): Promise<Response> {
 }
 
 // ============ START SERVER ============
+storage = await openStorage();
+await restoreState();
+
 logEvent(`🚀 Bingo Server starting on ${CONFIG.HOST}:${CONFIG.PORT}`);
 logEvent(`📱 Player URL: http://${CONFIG.HOST}:${CONFIG.PORT}`);
-logEvent(`🔧 Admin URL: http://${CONFIG.HOST}:${CONFIG.PORT}/admin?key=${CONFIG.ADMIN_KEY}`);
+logEvent(`🔧 Admin URL: http://${CONFIG.HOST}:${CONFIG.PORT}/admin`);
+if (!paymentProviders.has(CONFIG.PAYMENTS.PROVIDER)) {
+  logEvent(`⚠️ Payment provider "${CONFIG.PAYMENTS.PROVIDER}" is not registered (BINGO_PAYMENT_PROVIDER, or BINGO_DEV_PAYMENTS=1 for the mock): only cashier deposits work`);
+}
 
 // Start HTTP server
 serve(handleRequest, { hostname: CONFIG.HOST, port: CONFIG.PORT });